@@ -1,10 +1,20 @@
-import { spawnSync } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-
-export type Engine = 'claude' | 'codex';
+import { saveCassette } from './cassettes';
+import { TranscriptWriter, openTranscript } from './transcripts';
+import {
+  Engine,
+  EngineAdapter,
+  STREAM_PARSE_HELPERS,
+  createStreamState,
+  getEngineAdapter,
+} from './engines';
+
+export type { Engine } from './engines';
 
 const HEARTBEAT_INTERVAL_MS = 30 * 1000; // log every 30s
 
@@ -16,6 +26,21 @@ export interface AgentOptions {
   engine?: Engine;
   timeoutMs?: number;
   claudeOutputFormat?: 'stream-json' | 'json';
+  // Model name passed to the engine CLI (engine default when unset)
+  model?: string;
+  // Phase/scope label (e.g. "9-task-3"), used to identify recorded invocations
+  label?: string;
+  // Directory of recorded cassettes (read by the replay engine, written when recording)
+  cassetteDir?: string;
+  record?: boolean;
+  // Fixture file that drives the mock engine
+  mockFixture?: string;
+  // Directory for raw event transcripts (<scope>.jsonl + index.jsonl); none when unset
+  transcriptDir?: string;
+  // Retry attempt number for this label (0 for the first try)
+  attempt?: number;
+  // Engine session to continue instead of starting a fresh one (engines with sessionResume)
+  resumeSessionId?: string;
 }
 
 export interface AgentResult {
@@ -23,118 +48,29 @@ export interface AgentResult {
   costUsd: number;
   inputTokens: number;
   outputTokens: number;
+  // Prompt-cache reads and writes, not included in inputTokens
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   turns: number;
   elapsed: string;
   stopReason?: string;
   resultSubtype?: string;
   outputSource?: string;
   claudeOutputFormat?: 'stream-json' | 'json';
-}
-
-interface CodexCapabilities {
-  supportsAskForApproval: boolean;
-  supportsSearch: boolean;
-  supportsOutputLastMessage: boolean;
-}
-
-let codexCapabilitiesCache: CodexCapabilities | null = null;
-
-function getCodexCapabilities(): CodexCapabilities {
-  if (codexCapabilitiesCache) return codexCapabilitiesCache;
-
-  try {
-    const topLevelHelp = spawnSync('codex', ['--help'], {
-      encoding: 'utf-8',
-      stdio: 'pipe',
-      timeout: 10_000,
-    });
-    const execHelp = spawnSync('codex', ['exec', '--help'], {
-      encoding: 'utf-8',
-      stdio: 'pipe',
-      timeout: 10_000,
-    });
-    const topHelpText = `${topLevelHelp.stdout || ''}\n${topLevelHelp.stderr || ''}`;
-    const execHelpText = `${execHelp.stdout || ''}\n${execHelp.stderr || ''}`;
-    codexCapabilitiesCache = {
-      supportsAskForApproval:
-        topHelpText.includes('--ask-for-approval') || topHelpText.includes('-a, --ask-for-approval'),
-      supportsSearch: topHelpText.includes('--search'),
-      supportsOutputLastMessage:
-        execHelpText.includes('--output-last-message') || execHelpText.includes('-o, --output-last-message'),
-    };
-  } catch {
-    // Conservative defaults when detection fails.
-    codexCapabilitiesCache = {
-      supportsAskForApproval: false,
-      supportsSearch: false,
-      supportsOutputLastMessage: false,
-    };
-  }
-
-  return codexCapabilitiesCache;
-}
-
-function buildClaudeArgs(options: AgentOptions): { cmd: string; args: string[] } {
-  const { maxTurns, permissions, webSearch } = options;
-  const outputFormat = options.claudeOutputFormat || 'json';
-  const args: string[] = ['-p', '--output-format', outputFormat];
-
-  // In json mode we prefer deterministic stdout payloads over debug chatter.
-  // Verbose mode can emit extra output that complicates strict JSON parsing.
-  if (outputFormat === 'stream-json') {
-    args.push('--verbose');
-  }
-
-  if (maxTurns) args.push('--max-turns', String(maxTurns));
-
-  // Build allowed tools list based on permissions.
-  // When permissions is unset, no --allowedTools is passed and the agent
-  // gets its default tool set.
-  if (permissions) {
-    const tools: string[] = ['Read', 'Glob', 'Grep'];
-    if (permissions === 'read-write') {
-      tools.push('Edit', 'Write', 'Bash');
-    }
-    if (webSearch) {
-      tools.push('WebSearch', 'WebFetch');
-    }
-    args.push('--allowedTools', tools.join(','));
-  }
-
-  return { cmd: 'claude', args };
-}
-
-function buildCodexArgs(
-  options: AgentOptions,
-  outputLastMessagePath?: string
-): { cmd: string; args: string[] } {
-  const { permissions, webSearch } = options;
-  const args: string[] = [];
-  const capabilities = getCodexCapabilities();
-
-  // Codex global flags must appear before the subcommand.
-  if (capabilities.supportsAskForApproval) {
-    args.push('-a', 'never');
-  }
-
-  if (webSearch && capabilities.supportsSearch) {
-    args.push('--search');
-  }
-
-  args.push('exec', '--json');
-  if (outputLastMessagePath && capabilities.supportsOutputLastMessage) {
-    args.push('--output-last-message', outputLastMessagePath);
-  }
-
-  // Sandbox mode based on permissions
-  if (permissions === 'read-only') {
-    args.push('--sandbox', 'read-only');
-  } else {
-    // read-write or unspecified: allow workspace writes
-    args.push('--sandbox', 'workspace-write');
-  }
-
-  return { cmd: 'codex', args };
+  // Engine and model that produced the result (the recorded ones when replaying)
+  engine?: Engine;
+  // Cost of the original call when the result was replayed from a cassette (reporting only; costUsd is 0)
+  recordedCostUsd?: number;
+  model?: string;
+  // Set by the caller when the result came from a failover engine
+  failoverFrom?: Engine;
+  failoverReason?: string;
+  // Transcript of the raw event stream, when transcripts are enabled
+  transcriptFile?: string;
+  // Engine session id, usable as resumeSessionId for follow-up prompts
+  sessionId?: string;
+  // Session this invocation continued, when it was resumed
+  resumedSessionId?: string;
 }
 
 function formatBytes(bytes: number): string {
@@ -219,591 +155,458 @@ export function estimateTokens(text: string): number {
   return Math.round(Buffer.byteLength(text, 'utf-8') / 4);
 }
 
+// ---------------------------------------------------------------------------
+// Agent Runner
+// ---------------------------------------------------------------------------
+
+export interface AgentHeartbeat {
+  label: string;
+  elapsed: string;
+  turn: number;
+  maxTurns: number;
+  lastTool: string;
+  textBytes: number;
+  paused: boolean;
+}
+
 /**
- * Runs an AI agent (claude or codex) synchronously.
- *
- * Uses a child Node process wrapper that:
- * - Parses JSON outputs (Claude json/stream-json and Codex --json)
- * - Tracks turns, tool calls, and text output in real time
- * - Streams stderr to console (progress, debug info)
- * - Logs a heartbeat every 30s with turn count, last tool, and output size
- * - Supports timeout to kill runaway agents
- * - Reports cost and token usage on completion (Claude)
+ * Live handle for one agent invocation. `events` emits:
+ * - `turn`      { label, turn }       when a new turn starts
+ * - `tool`      { label, tool }       when the agent calls a tool
+ * - `text`      { label, textBytes }  when assistant text output grows
+ * - `heartbeat` AgentHeartbeat        every 30s while running
  */
-export function runAgent(prompt: string, options: AgentOptions = {}): AgentResult {
-  const engine = options.engine || 'claude';
-  const maxTurns = options.maxTurns || 0;
-  const timeoutMs = options.timeoutMs;
-  const claudeOutputFormat = options.claudeOutputFormat || 'json';
+export interface AgentHandle {
+  events: EventEmitter;
+  result: Promise<AgentResult>;
+  /** Kills the agent process; `result` rejects with an "Agent cancelled" error. */
+  cancel(reason?: string): void;
+}
 
-  // Write prompt to secure temp file to avoid shell escaping issues
-  const tmpFile = createSecureTempFile('prompt', '.md');
-  fs.writeFileSync(tmpFile, prompt, { mode: 0o600 });
-  const codexOutputFile = engine === 'codex'
-    ? createSecureTempFile('codex-last-message', '.md')
-    : null;
+interface ActiveAgent {
+  child: ChildProcess | null;
+  settled: Promise<unknown>;
+  cancel(reason: string): void;
+  pause(): void;
+  resume(): void;
+}
 
-  const { cmd, args } = engine === 'codex'
-    ? buildCodexArgs(options, codexOutputFile || undefined)
-    : buildClaudeArgs(options);
+const KILL_GRACE_MS = 5_000;
+const ACTIVE_AGENTS = new Set<ActiveAgent>();
+let agentsPaused = false;
+const pauseEvents = new EventEmitter();
+let labelledLogs = false;
 
-  // Log prompt diagnostics
-  const promptBytes = Buffer.byteLength(prompt, 'utf-8');
-  const approxTokens = Math.round(promptBytes / 4);
-  console.log(`  [agent] Engine: ${engine} | Prompt: ${formatBytes(promptBytes)} (~${approxTokens.toLocaleString()} tokens)`);
-  console.log(`  [agent] Timeout: ${timeoutMs ? formatDuration(timeoutMs) : 'none'} | Cmd: ${cmd} ${args.join(' ')}`);
+/** Re-emits the events of every agent handle, for process-wide listeners such as a live UI. */
+export const agentEvents = new EventEmitter();
 
-  const startTime = Date.now();
+/**
+ * Pauses or resumes all running agents (SIGSTOP/SIGCONT, POSIX only).
+ * While paused, timeouts are suspended and new agents wait before spawning.
+ */
+export function setAgentsPaused(paused: boolean): void {
+  if (paused === agentsPaused) return;
+  agentsPaused = paused;
+  for (const active of ACTIVE_AGENTS) {
+    if (paused) active.pause();
+    else active.resume();
+  }
+  if (!paused) pauseEvents.emit('resume');
+}
 
-  // Build a wrapper script that spawns the agent, parses its JSON stream/output,
-  // tracks turns/tools/output, logs heartbeats, and emits final text to stdout.
-  // Also outputs a JSON stats line to stderr for the parent to parse.
-  const wrapperScript = `
-    const { spawn } = require('child_process');
-    const fs = require('fs');
-
-    const ENGINE = ${JSON.stringify(engine)};
-    const MAX_TURNS = ${maxTurns};
-    const CLAUDE_OUTPUT_FORMAT = ${JSON.stringify(claudeOutputFormat)};
-    const START_MS = ${startTime};
-    const HEARTBEAT_MS = ${HEARTBEAT_INTERVAL_MS};
-
-    // ---------------------------------------------------------------
-    // State tracked from the CLI JSON stream/output
-    // ---------------------------------------------------------------
-    const state = {
-      turn: 0,
-      lastTool: '',
-      textBytes: 0,
-      finalText: '',
-      lastAssistantText: '',
-      longestAssistantText: '',
-      numTurns: null,
-      costUsd: null,
-      inputTokens: 0,
-      outputTokens: 0,
-      stopReason: '',
-      resultSubtype: '',
-    };
+export function areAgentsPaused(): boolean {
+  return agentsPaused;
+}
 
-    // Accumulated text from all assistant messages (fallback if result event missing)
-    let accumulatedText = '';
-    let rawStdout = '';
+/** Cancels all running agents and resolves once their processes have exited. */
+export async function cancelActiveAgents(reason: string): Promise<void> {
+  const pending = Array.from(ACTIVE_AGENTS);
+  for (const active of pending) {
+    active.cancel(reason);
+  }
+  await Promise.allSettled(pending.map((active) => active.settled));
+}
 
-    const ARTIFACT_OPEN = '<artifact_output>';
-    const ARTIFACT_CLOSE = '</artifact_output>';
-    const ARTIFACT_END = '<!-- END_ARTIFACT -->';
+/**
+ * Prefixes agent log lines with the agent's scope label (e.g. "[agent 4]").
+ * Enabled when phases run concurrently so interleaved output stays readable.
+ */
+export function setLabelledAgentLogs(enabled: boolean): void {
+  labelledLogs = enabled;
+}
 
-    function contains(haystack, needle) {
-      return haystack.toLowerCase().includes(needle.toLowerCase());
-    }
+function agentLogTag(label: string | undefined, detail?: string): string {
+  const parts = ['agent', labelledLogs && label ? label : '', detail || ''].filter(Boolean);
+  return `[${parts.join(' ')}]`;
+}
 
-    function scoreClaudeCandidate(text) {
-      const trimmed = (text || '').trim();
-      if (!trimmed) return -1;
-
-      let score = 0;
-      if (contains(trimmed, ARTIFACT_OPEN)) score += 4;
-      if (contains(trimmed, ARTIFACT_CLOSE)) score += 4;
-      if (contains(trimmed, ARTIFACT_END)) score += 8;
-      if (/^#{1,3}\\s/m.test(trimmed)) score += 1;
-      if (trimmed.length > 8192) score += 2;
-      if (trimmed.length === 8192) score -= 1;
-      score += Math.min(Math.floor(trimmed.length / 4096), 5);
-      return score;
-    }
+function labelLines(text: string, tag: string): string {
+  return text.replace(/^(?=.)/gm, `  ${tag} `);
+}
 
-    function selectClaudeOutput() {
-      const rawCandidates = [
-        { source: 'result', text: state.finalText || '' },
-        { source: 'last_assistant', text: state.lastAssistantText || '' },
-        { source: 'longest_assistant', text: state.longestAssistantText || '' },
-        { source: 'accumulated_assistant', text: accumulatedText || '' },
-      ];
-
-      const seen = new Set();
-      let best = { source: 'result', text: state.finalText || '', score: -1 };
-
-      for (const candidate of rawCandidates) {
-        const trimmed = candidate.text.trim();
-        if (!trimmed || seen.has(trimmed)) continue;
-        seen.add(trimmed);
-
-        const score = scoreClaudeCandidate(trimmed);
-        if (
-          score > best.score ||
-          (score === best.score && trimmed.length > best.text.trim().length)
-        ) {
-          best = { source: candidate.source, text: trimmed, score };
-        }
-      }
+function waitWhilePaused(): Promise<void> {
+  if (!agentsPaused) return Promise.resolve();
+  console.log('  [agent] Agents paused — waiting for resume before starting');
+  return new Promise((resolve) => pauseEvents.once('resume', () => resolve()));
+}
 
-      return best;
+/**
+ * Starts an AI agent through its registered engine adapter.
+ * Adapters that implement `execute` (such as replay) run in-process; all
+ * others spawn their CLI through runCliAgent. With `record` set, CLI results
+ * are saved as cassettes under `cassetteDir`.
+ */
+export function startAgent(prompt: string, options: AgentOptions = {}): AgentHandle {
+  const adapter = getEngineAdapter(options.engine || 'claude');
+  const label = options.label || '';
+  const events = new EventEmitter();
+  const emit = (name: string, payload: object): void => {
+    events.emit(name, payload);
+    agentEvents.emit(name, payload);
+  };
+
+  let cancelledReason: string | null = null;
+  const active: ActiveAgent = {
+    child: null,
+    settled: Promise.resolve(),
+    cancel: (reason) => {
+      cancelledReason = cancelledReason || reason;
+    },
+    pause: () => {},
+    resume: () => {},
+  };
+
+  const result = (async (): Promise<AgentResult> => {
+    await waitWhilePaused();
+    if (cancelledReason) {
+      throw new Error(`Agent cancelled before start: ${cancelledReason}`);
+    }
+    if (adapter.execute) {
+      return adapter.execute(prompt, options);
     }
 
-    function parseClaudeResultPayload(payload) {
-      if (!payload || typeof payload !== 'object') return;
-
-      if (typeof payload.result === 'string') {
-        state.finalText = payload.result;
-        if (state.finalText.trim().length > 0) {
-          state.textBytes = Math.max(state.textBytes, Buffer.byteLength(state.finalText.trim()));
-        }
-      }
+    const agentResult = await runCliAgent(adapter, prompt, options, active, (name, payload) =>
+      emit(name, { label, ...payload })
+    );
+    if (options.record && options.cassetteDir) {
+      const key = saveCassette(options.cassetteDir, prompt, options, agentResult);
+      console.log(`  [agent] Recorded cassette ${key}`);
+    }
+    return agentResult;
+  })();
 
-      if (payload.num_turns != null) {
-        state.numTurns = payload.num_turns;
-      }
-      if (payload.total_cost_usd != null) {
-        state.costUsd = payload.total_cost_usd;
-      }
-      if (payload.input_tokens != null) {
-        state.inputTokens = payload.input_tokens;
-      }
-      if (payload.output_tokens != null) {
-        state.outputTokens = payload.output_tokens;
-      }
+  active.settled = result.catch(() => undefined).finally(() => ACTIVE_AGENTS.delete(active));
+  ACTIVE_AGENTS.add(active);
 
-      if (typeof payload.subtype === 'string') {
-        state.resultSubtype = payload.subtype;
-      } else if (typeof payload.result_subtype === 'string') {
-        state.resultSubtype = payload.result_subtype;
-      }
+  return {
+    events,
+    result,
+    cancel: (reason = 'cancelled by caller') => active.cancel(reason),
+  };
+}
 
-      if (typeof payload.stop_reason === 'string') {
-        state.stopReason = payload.stop_reason;
-      } else if (typeof payload.stopReason === 'string') {
-        state.stopReason = payload.stopReason;
-      }
-    }
+/** Runs an AI agent to completion. See startAgent for events and cancellation. */
+export function runAgent(prompt: string, options: AgentOptions = {}): Promise<AgentResult> {
+  return startAgent(prompt, options).result;
+}
 
-    function tryParseJsonPayload(raw) {
-      const trimmed = (raw || '').trim();
-      if (!trimmed) return null;
+/**
+ * Runs an engine CLI as a child process.
+ *
+ * - Pipes the prompt over stdin and parses the JSON event stream with the adapter
+ * - Emits turn/tool/text events and logs a heartbeat every 30s with turn count,
+ *   last tool, and output size
+ * - Streams stderr to console (progress, debug info)
+ * - Kills the process on timeout or cancellation (SIGTERM, then SIGKILL)
+ *
+ * After exit, the adapter selects the final output and reports cost and token usage.
+ */
+function runCliAgent(
+  adapter: EngineAdapter,
+  prompt: string,
+  options: AgentOptions,
+  active: ActiveAgent,
+  emit: (name: string, payload: object) => void
+): Promise<AgentResult> {
+  const engine = adapter.id;
+  const maxTurns = options.maxTurns || 0;
+  const timeoutMs = options.timeoutMs;
 
-      // Best case: single JSON object payload.
-      try {
-        return JSON.parse(trimmed);
-      } catch (e) {
-        // continue
-      }
+  const tag = agentLogTag(options.label);
+  const outputFile = createSecureTempFile(`${engine}-last-message`, '.md');
+  const { cmd, args } = adapter.buildCommand(options, { outputFile });
 
-      // Fallback: parse last JSON-looking line/object from mixed output.
-      const lines = trimmed.split('\\n').map((line) => line.trim()).filter(Boolean);
-      for (let i = lines.length - 1; i >= 0; i--) {
-        const line = lines[i];
-        if (!line.startsWith('{')) continue;
-        try {
-          return JSON.parse(line);
-        } catch (e) {
-          // continue
-        }
-      }
+  // Log prompt diagnostics
+  const promptBytes = Buffer.byteLength(prompt, 'utf-8');
+  const approxTokens = Math.round(promptBytes / 4);
+  console.log(`  ${tag} Engine: ${engine} | Prompt: ${formatBytes(promptBytes)} (~${approxTokens.toLocaleString()} tokens)`);
+  console.log(`  ${tag} Timeout: ${timeoutMs ? formatDuration(timeoutMs) : 'none'} | Cmd: ${cmd} ${args.join(' ')}`);
+  if (options.resumeSessionId) {
+    console.log(`  ${tag} Continuing session ${options.resumeSessionId}`);
+  }
 
-      // Fallback: parse largest bracketed object in the raw output.
-      const firstBrace = trimmed.indexOf('{');
-      const lastBrace = trimmed.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace > firstBrace) {
-        const candidate = trimmed.slice(firstBrace, lastBrace + 1);
-        try {
-          return JSON.parse(candidate);
-        } catch (e) {
-          // continue
-        }
-      }
+  const startTime = Date.now();
+  const state = createStreamState();
+  let rawStdout = '';
+  let lineBuffer = '';
+
+  const transcript: TranscriptWriter | null = options.transcriptDir
+    ? openTranscript(options.transcriptDir, {
+      label: options.label || engine,
+      retry: options.attempt || 0,
+      engine,
+      ...(options.model ? { model: options.model } : {}),
+      cwd: options.cwd || process.cwd(),
+      command: [cmd, ...args],
+      started_at: new Date(startTime).toISOString(),
+      prompt,
+    })
+    : null;
 
-      return null;
+  const processLine = (line: string): void => {
+    if (!line.trim()) return;
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      transcript?.stdout(Date.now() - startTime, line);
+      return; // not valid JSON, skip
     }
-
-    // ---------------------------------------------------------------
-    // Tool name formatter — shows tool + brief context
-    // ---------------------------------------------------------------
-    function briefTool(name, input) {
-      if (!input) return name;
-      const fp = input.file_path || input.path || '';
-      if (fp) return name + '(' + fp.split('/').pop() + ')';
-      const pat = input.pattern || '';
-      if (pat) return name + '(' + pat.substring(0, 30) + ')';
-      const cmd = input.command || '';
-      if (cmd) return name + '(' + cmd.substring(0, 30) + ')';
-      return name;
+    transcript?.event(Date.now() - startTime, event);
+    const before = { turn: state.turn, lastTool: state.lastTool, textBytes: state.textBytes };
+    try {
+      adapter.parseEvent(event, state, STREAM_PARSE_HELPERS);
+    } catch {
+      return; // malformed event, skip
     }
+    if (state.turn !== before.turn) emit('turn', { turn: state.turn });
+    if (state.lastTool !== before.lastTool) emit('tool', { tool: state.lastTool });
+    if (state.textBytes !== before.textBytes) emit('text', { textBytes: state.textBytes });
+  };
+
+  return new Promise<AgentResult>((resolve, reject) => {
+    const child = spawn(cmd, args, {
+      cwd: options.cwd || process.cwd(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    active.child = child;
+
+    let exited = false;
+    let settled = false;
+    let timedOut = false;
+    let cancelledReason: string | null = null;
+    let timeoutTimer: NodeJS.Timeout | null = null;
+    let deadline = timeoutMs ? startTime + timeoutMs : 0;
+    let pausedAt = 0;
+
+    const killChild = (): void => {
+      if (exited) return;
+      child.kill('SIGTERM');
+      // A stopped process only handles SIGTERM once continued.
+      if (pausedAt) child.kill('SIGCONT');
+      setTimeout(() => {
+        if (!exited) child.kill('SIGKILL');
+      }, KILL_GRACE_MS).unref();
+    };
 
-    // ---------------------------------------------------------------
-    // Claude parser
-    // Handles stream-json events and json-mode result objects.
-    // ---------------------------------------------------------------
-    function parseClaude(event) {
-      if (!event || typeof event !== 'object') return;
-
-      // stream-json assistant event
-      if (event.type === 'assistant' && event.message && event.message.content) {
-        let hasTool = false;
-        let assistantText = '';
-        for (const block of event.message.content) {
-          if (block.type === 'text') {
-            assistantText += block.text || '';
-          }
-          if (block.type === 'tool_use') {
-            hasTool = true;
-            state.lastTool = briefTool(block.name, block.input);
-          }
-        }
-        if (assistantText.trim().length > 0) {
-          const trimmed = assistantText.trim();
-          state.lastAssistantText = trimmed;
-          if (trimmed.length > state.longestAssistantText.length) {
-            state.longestAssistantText = trimmed;
-          }
-          if (trimmed.length > accumulatedText.length) {
-            accumulatedText = trimmed;
-          }
-          state.textBytes = Math.max(state.textBytes, Buffer.byteLength(trimmed));
-        }
-        if (hasTool) state.turn++;
-      }
+    const armTimeout = (): void => {
+      if (!deadline) return;
+      timeoutTimer = setTimeout(() => {
+        timedOut = true;
+        killChild();
+      }, Math.max(0, deadline - Date.now()));
+    };
 
-      // stream-json final event
-      if (event.type === 'result') {
-        parseClaudeResultPayload(event);
+    active.cancel = (reason) => {
+      if (cancelledReason || exited) return;
+      cancelledReason = reason;
+      killChild();
+    };
+    active.pause = () => {
+      if (pausedAt || exited) return;
+      try {
+        child.kill('SIGSTOP');
+      } catch (err) {
+        process.stderr.write(`  ${tag} Pause not supported: ${(err as Error).message}\n`);
         return;
       }
+      pausedAt = Date.now();
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      process.stderr.write(`  ${tag} Paused\n`);
+    };
+    active.resume = () => {
+      if (!pausedAt || exited) return;
+      if (deadline) deadline += Date.now() - pausedAt;
+      pausedAt = 0;
+      child.kill('SIGCONT');
+      armTimeout();
+      process.stderr.write(`  ${tag} Resumed\n`);
+    };
 
-      // json mode can emit a single result object (without type)
-      if (!event.type && ('result' in event || 'stop_reason' in event || 'num_turns' in event)) {
-        parseClaudeResultPayload(event);
-      }
-    }
-
-    // ---------------------------------------------------------------
-    // Codex --json parser
-    // Events: turn.started, turn.completed, item.started, item.completed
-    // ---------------------------------------------------------------
-    function parseCodex(event) {
-      if (event.type === 'turn.started') {
-        state.turn++;
-      }
-      if (event.type === 'item.completed' && event.item) {
-        if (event.item.type === 'agent_message') {
-          const text = event.item.text || '';
-          accumulatedText += text;
-          state.finalText = accumulatedText;
-          state.textBytes = Buffer.byteLength(state.finalText);
-        }
-        if (event.item.type === 'command_execution') {
-          state.lastTool = 'Bash(' + (event.item.command || '').substring(0, 30) + ')';
-        }
-        if (event.item.type === 'mcp_tool_call') {
-          state.lastTool = briefTool(event.item.tool || 'tool', event.item.arguments);
-        }
-        if (event.item.type === 'file_change') {
-          const fname = (event.item.file || '').split('/').pop() || 'file';
-          state.lastTool = 'FileChange(' + fname + ')';
-        }
-      }
-      if (event.type === 'turn.completed' && event.usage) {
-        state.inputTokens += event.usage.input_tokens || 0;
-        state.outputTokens += event.usage.output_tokens || 0;
-      }
-    }
+    armTimeout();
+    if (agentsPaused) active.pause();
 
-    // ---------------------------------------------------------------
-    // JSON line processor (for stream-json / codex --json)
-    // ---------------------------------------------------------------
-    let lineBuffer = '';
+    child.stdin.on('error', (err: NodeJS.ErrnoException) => {
+      // Agent may exit before stdin is fully written (for example, CLI arg parse errors).
+      if (!err || err.code === 'EPIPE') return;
+      process.stderr.write(`  ${tag} stdin error: ${err.message}\n`);
+    });
+    child.stdin.end(prompt);
 
-    function processChunk(data) {
+    child.stdout.on('data', (data: Buffer) => {
       const text = data.toString();
       rawStdout += text;
       lineBuffer += text;
-      const lines = lineBuffer.split('\\n');
+      const lines = lineBuffer.split('\n');
       lineBuffer = lines.pop() || '';
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const event = JSON.parse(line);
-          if (ENGINE === 'claude') parseClaude(event);
-          else parseCodex(event);
-        } catch (e) { /* not valid JSON, skip */ }
-      }
-    }
-
-    // ---------------------------------------------------------------
-    // Spawn the agent process
-    // ---------------------------------------------------------------
-    const child = spawn(${JSON.stringify(cmd)}, ${JSON.stringify(args)}, {
-      cwd: ${JSON.stringify(options.cwd || process.cwd())},
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    const stdinStream = fs.createReadStream(${JSON.stringify(tmpFile)});
-    child.stdin.on('error', (err) => {
-      // Agent may exit before stdin is fully piped (for example, CLI arg parse errors).
-      if (!err || err.code === 'EPIPE') return;
-      process.stderr.write('  [agent] stdin error: ' + err.message + '\\n');
+      for (const line of lines) processLine(line);
     });
-    stdinStream.on('error', (err) => {
-      process.stderr.write('  [agent] prompt stream error: ' + err.message + '\\n');
+    child.stderr.on('data', (data: Buffer) => {
+      process.stderr.write(labelledLogs ? labelLines(data.toString(), tag) : data);
+      transcript?.stderr(Date.now() - startTime, data.toString());
     });
-    stdinStream.pipe(child.stdin);
-
-    child.stdout.on('data', processChunk);
-    child.stderr.on('data', (data) => process.stderr.write(data));
 
-    // ---------------------------------------------------------------
     // Heartbeat — shows turn, last tool, output size
-    // ---------------------------------------------------------------
-    function formatElapsed(startMs) {
-      const elapsed = Math.floor((Date.now() - startMs) / 1000);
-      const min = Math.floor(elapsed / 60);
-      const sec = elapsed % 60;
-      return min + 'm' + sec + 's';
-    }
-
-    function formatSize(bytes) {
-      if (bytes < 1024) return bytes + 'B';
-      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + 'KB';
-      return (bytes / (1024 * 1024)).toFixed(1) + 'MB';
-    }
-
     const heartbeat = setInterval(() => {
-      const elapsed = formatElapsed(START_MS);
-      const turnStr = MAX_TURNS > 0
-        ? 'Turn ' + state.turn + '/' + MAX_TURNS
-        : 'Turn ' + state.turn;
-      const toolStr = state.lastTool ? ' | ' + state.lastTool : '';
-      const sizeStr = formatSize(state.textBytes) + ' text output';
-      process.stderr.write('  [agent ' + elapsed + '] ' + turnStr + toolStr + ' | ' + sizeStr + '\\n');
-    }, HEARTBEAT_MS);
-
-    // ---------------------------------------------------------------
-    // Completion handler
-    // ---------------------------------------------------------------
-    child.on('close', (code) => {
+      const progress = {
+        elapsed: formatDuration(Date.now() - startTime),
+        turn: state.turn,
+        maxTurns,
+        lastTool: state.lastTool,
+        textBytes: state.textBytes,
+        paused: pausedAt > 0,
+      };
+      emit('heartbeat', progress);
+      const turnStr = maxTurns > 0 ? `Turn ${state.turn}/${maxTurns}` : `Turn ${state.turn}`;
+      const toolStr = state.lastTool ? ` | ${state.lastTool}` : '';
+      const pausedStr = progress.paused ? ' | paused' : '';
+      process.stderr.write(
+        `  ${agentLogTag(options.label, progress.elapsed)} ${turnStr}${toolStr} | ${formatBytes(state.textBytes)} text output${pausedStr}\n`
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const finish = (code: number | null, outcome: AgentResult | Error): void => {
+      if (settled) return;
+      settled = true;
       clearInterval(heartbeat);
-
-      // Process any remaining buffered data
-      if (lineBuffer.trim()) processChunk(lineBuffer + '\\n');
-      if (ENGINE === 'claude' && state.finalText.trim().length === 0 && CLAUDE_OUTPUT_FORMAT === 'json') {
-        const parsed = tryParseJsonPayload(rawStdout);
-        if (parsed) {
-          parseClaude(parsed);
-        }
-      }
-
-      // Determine final output.
-      let output = state.finalText || '';
-      let outputSource = 'result';
-      if (ENGINE === 'claude' && CLAUDE_OUTPUT_FORMAT === 'stream-json') {
-        const selected = selectClaudeOutput();
-        output = selected.text;
-        outputSource = selected.source;
-      } else if (ENGINE === 'claude' && output.trim().length === 0) {
-        output = state.lastAssistantText || state.longestAssistantText || accumulatedText;
-        outputSource = 'assistant_fallback';
-      }
-      if (output.trim().length === 0) {
-        output = accumulatedText;
-        outputSource = 'accumulated_assistant';
-      }
-      if (ENGINE === 'claude' && output.trim().length === 0 && CLAUDE_OUTPUT_FORMAT === 'json') {
-        const rawFallback = rawStdout.trim();
-        if (rawFallback.length > 0) {
-          output = rawFallback;
-          outputSource = 'raw_stdout_fallback';
-        }
-      }
-      if (ENGINE === 'claude') {
-        const resultSize = Buffer.byteLength(state.finalText || '');
-        const selectedSize = Buffer.byteLength(output || '');
-        const subtype = state.resultSubtype || 'n/a';
-        const stopReason = state.stopReason || 'n/a';
-        process.stderr.write(
-          '  [agent] Claude output source: ' +
-            outputSource +
-            ' | format=' +
-            CLAUDE_OUTPUT_FORMAT +
-            ' | result=' +
-            formatSize(resultSize) +
-            ' | selected=' +
-            formatSize(selectedSize) +
-            ' | subtype=' +
-            subtype +
-            ' | stop_reason=' +
-            stopReason +
-            '\\n'
-        );
-        if (
-          CLAUDE_OUTPUT_FORMAT === 'stream-json' &&
-          state.finalText.trim().length > 0 &&
-          output.trim().length > 0 &&
-          state.finalText.trim() !== output.trim()
-        ) {
-          process.stderr.write(
-            '  [agent] Claude mismatch: selected output differs from result payload.\\n'
-          );
-        }
-      }
-      // Write final output synchronously to avoid truncation when exiting quickly.
-      // Large payloads can be partially written if we exit immediately after async writes.
-      try {
-        fs.writeSync(1, output);
-      } catch (err) {
-        process.stderr.write('  [agent] stdout write error: ' + (err && err.message ? err.message : String(err)) + '\\n');
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      try { fs.rmSync(path.dirname(outputFile), { recursive: true, force: true }); } catch { /* ignore */ }
+
+      const elapsed = formatDuration(Date.now() - startTime);
+      if (outcome instanceof Error) {
+        transcript?.close({
+          status: 'error',
+          exit_code: code,
+          elapsed,
+          output_bytes: 0,
+          error: outcome.message,
+        });
+        reject(outcome);
+        return;
       }
 
-      // Log completion summary to stderr
-      const parts = [];
-      const turns = state.numTurns != null ? state.numTurns : state.turn;
-      parts.push('Turns: ' + turns);
-      if (state.costUsd != null && state.costUsd > 0) {
-        parts.push('Cost: $' + state.costUsd.toFixed(4));
-      }
-      if (state.inputTokens > 0 || state.outputTokens > 0) {
-        parts.push('Tokens: ' + state.inputTokens.toLocaleString() + ' in / ' + state.outputTokens.toLocaleString() + ' out');
-      }
-      process.stderr.write('  [agent] ' + parts.join(' | ') + '\\n');
-
-      // Emit stats as final stderr JSON line for parent to parse
-      const stats = JSON.stringify({
-        __agent_stats__: true,
-        costUsd: state.costUsd || 0,
-        inputTokens: state.inputTokens,
-        outputTokens: state.outputTokens,
-        turns: turns,
-        stopReason: state.stopReason || '',
-        resultSubtype: state.resultSubtype || '',
-        outputSource: outputSource,
-        claudeOutputFormat: CLAUDE_OUTPUT_FORMAT,
+      transcript?.close({
+        status: 'ok',
+        exit_code: code,
+        elapsed,
+        output_bytes: Buffer.byteLength(outcome.output),
+        turns: outcome.turns,
+        cost_usd: outcome.costUsd,
+        input_tokens: outcome.inputTokens,
+        output_tokens: outcome.outputTokens,
+        cache_read_tokens: outcome.cacheReadTokens,
+        cache_write_tokens: outcome.cacheWriteTokens,
+        output_source: outcome.outputSource,
+        stop_reason: outcome.stopReason,
+        result_subtype: outcome.resultSubtype,
+        session_id: outcome.sessionId,
       });
-      process.stderr.write('  [agent-stats] ' + stats + '\\n');
-
-      process.exit(code || 0);
-    });
+      resolve(transcript ? { ...outcome, transcriptFile: transcript.file } : outcome);
+    };
 
     child.on('error', (err) => {
-      clearInterval(heartbeat);
-      process.stderr.write('  [agent] Spawn error: ' + err.message + '\\n');
-      process.exit(1);
+      exited = true;
+      const elapsed = formatDuration(Date.now() - startTime);
+      finish(null, new Error(`Agent failed after ${elapsed}: ${err.message}`));
     });
-  `;
-
-  const wrapperFile = createSecureTempFile('wrapper', '.js');
-  fs.writeFileSync(wrapperFile, wrapperScript, { mode: 0o600 });
-
-  // Track the temp directory for cleanup
-  const tmpDir1 = path.dirname(tmpFile);
-  const tmpDir2 = path.dirname(wrapperFile);
-  const tmpDir3 = codexOutputFile ? path.dirname(codexOutputFile) : null;
-
-  try {
-    const result = spawnSync('node', [wrapperFile], {
-      encoding: 'utf-8',
-      maxBuffer: 50 * 1024 * 1024,
-      ...(timeoutMs ? { timeout: timeoutMs } : {}),
-      stdio: ['pipe', 'pipe', 'pipe'], // capture stderr to parse stats
-    });
-
-    const elapsed = formatDuration(Date.now() - startTime);
-
-    // Forward stderr to console (except stats line)
-    let costUsd = 0;
-    let inputTokens = 0;
-    let outputTokens = 0;
-    let turns = 0;
-    let stopReason = '';
-    let resultSubtype = '';
-    let outputSource = '';
-    let selectedClaudeOutputFormat: 'stream-json' | 'json' | undefined = undefined;
-
-    if (result.stderr) {
-      for (const line of result.stderr.split('\n')) {
-        if (line.includes('[agent-stats]')) {
-          try {
-            const jsonStr = line.slice(line.indexOf('{'));
-            const stats = JSON.parse(jsonStr);
-            if (stats.__agent_stats__) {
-              costUsd = stats.costUsd || 0;
-              inputTokens = stats.inputTokens || 0;
-              outputTokens = stats.outputTokens || 0;
-              turns = stats.turns || 0;
-              stopReason = stats.stopReason || '';
-              resultSubtype = stats.resultSubtype || '';
-              outputSource = stats.outputSource || '';
-              selectedClaudeOutputFormat = stats.claudeOutputFormat || undefined;
-            }
-          } catch { /* ignore parse errors */ }
-        } else {
-          process.stderr.write(line + '\n');
-        }
-      }
-    }
 
-    if (result.error) {
-      const msg = result.error.message || '';
-      if (msg.includes('ETIMEDOUT') || msg.includes('timed out')) {
-        const partial = (result.stdout || '').trim();
-        throw new Error(
+    child.on('close', (code) => {
+      exited = true;
+      // A spawn error has already settled the run.
+      if (settled) return;
+      if (lineBuffer) processLine(lineBuffer);
+      const elapsed = formatDuration(Date.now() - startTime);
+
+      if (timedOut) {
+        finish(code, new Error(
           `Agent timed out after ${elapsed}. ` +
-          `Partial output: ${formatBytes(Buffer.byteLength(partial))}. ` +
+          `Partial output: ${formatBytes(Buffer.byteLength(rawStdout))}. ` +
           `Try increasing timeout or reducing prompt size.`
-        );
+        ));
+        return;
+      }
+      if (cancelledReason) {
+        finish(code, new Error(`Agent cancelled after ${elapsed}: ${cancelledReason}`));
+        return;
       }
-      throw new Error(`Agent failed after ${elapsed}: ${msg}`);
-    }
 
-    let output = (result.stdout || '').trim();
-    if (engine === 'codex' && codexOutputFile && fs.existsSync(codexOutputFile)) {
       try {
-        const fileOutput = fs.readFileSync(codexOutputFile, 'utf-8').trim();
-        if (fileOutput.length > 0) {
-          output = fileOutput;
+        const selected = adapter.finalizeOutput(state, { rawStdout, outputFile, options });
+        for (const line of selected.diagnostics) {
+          process.stderr.write(`  ${tag} ${line}\n`);
         }
-      } catch {
-        // Fall back to stream-parsed output if reading file fails.
-      }
-    }
+        const output = selected.output.trim();
+
+        // Log completion summary
+        const turns = state.numTurns != null ? state.numTurns : state.turn;
+        const parts = [`Turns: ${turns}`];
+        if (state.costUsd != null && state.costUsd > 0) {
+          parts.push(`Cost: $${state.costUsd.toFixed(4)}`);
+        }
+        if (state.inputTokens > 0 || state.outputTokens > 0) {
+          parts.push(`Tokens: ${state.inputTokens.toLocaleString()} in / ${state.outputTokens.toLocaleString()} out`);
+        }
+        if (state.cacheReadTokens > 0 || state.cacheWriteTokens > 0) {
+          parts.push(`Cache: ${state.cacheReadTokens.toLocaleString()} read / ${state.cacheWriteTokens.toLocaleString()} written`);
+        }
+        process.stderr.write(`  ${tag} ${parts.join(' | ')}\n`);
 
-    if (result.status !== 0 && result.status !== null) {
-      if (output.length > 0) {
-        console.log(`  [agent] Exited with code ${result.status} after ${elapsed}, but has output — using it`);
-        return {
+        const agentResult: AgentResult = {
           output,
-          costUsd,
-          inputTokens,
-          outputTokens,
+          costUsd: state.costUsd || 0,
+          inputTokens: state.inputTokens,
+          outputTokens: state.outputTokens,
+          cacheReadTokens: state.cacheReadTokens,
+          cacheWriteTokens: state.cacheWriteTokens,
           turns,
           elapsed,
-          stopReason,
-          resultSubtype,
-          outputSource,
-          claudeOutputFormat: selectedClaudeOutputFormat,
+          stopReason: state.stopReason,
+          resultSubtype: state.resultSubtype,
+          outputSource: selected.outputSource,
+          claudeOutputFormat: engine === 'claude' ? options.claudeOutputFormat || 'json' : undefined,
+          engine,
+          model: options.model,
+          ...(state.sessionId ? { sessionId: state.sessionId } : {}),
+          ...(options.resumeSessionId ? { resumedSessionId: options.resumeSessionId } : {}),
         };
-      }
-      throw new Error(`Agent exited with code ${result.status} after ${elapsed} with no output`);
-    }
 
-    console.log(`  [agent] Completed in ${elapsed} | Output: ${formatBytes(Buffer.byteLength(output))}`);
-    return {
-      output,
-      costUsd,
-      inputTokens,
-      outputTokens,
-      turns,
-      elapsed,
-      stopReason,
-      resultSubtype,
-      outputSource,
-      claudeOutputFormat: selectedClaudeOutputFormat,
-    };
-  } finally {
-    // Clean up temp files and directories
-    try { fs.rmSync(tmpDir1, { recursive: true, force: true }); } catch { /* ignore */ }
-    try { fs.rmSync(tmpDir2, { recursive: true, force: true }); } catch { /* ignore */ }
-    if (tmpDir3) {
-      try { fs.rmSync(tmpDir3, { recursive: true, force: true }); } catch { /* ignore */ }
-    }
-  }
+        if (code !== 0 && code !== null) {
+          if (output.length > 0) {
+            console.log(`  ${tag} Exited with code ${code} after ${elapsed}, but has output — using it`);
+            finish(code, agentResult);
+            return;
+          }
+          finish(code, new Error(`Agent exited with code ${code} after ${elapsed} with no output`));
+          return;
+        }
+
+        console.log(`  ${tag} Completed in ${elapsed} | Output: ${formatBytes(Buffer.byteLength(output))}`);
+        finish(code, agentResult);
+      } catch (err) {
+        finish(code, err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  });
 }
 
 export function buildPrompt(
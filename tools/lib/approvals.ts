@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// File-Based Approvals
+// ---------------------------------------------------------------------------
+
+export const APPROVALS_DIR = 'approvals';
+export const DEFAULT_APPROVAL_POLL_MS = 5_000;
+
+export interface FileApprovalRequest {
+  run_id: string;
+  phase: string;
+  phase_name: string;
+  gate: 'pre-run' | 'review';
+  // Review round (1 for the first draft, +1 per rejection)
+  attempt?: number;
+  requested_at: string;
+  /** Artifact to review (review gate only); it may be edited before approving. */
+  artifact?: string;
+  cost_so_far_usd: number;
+  /** Files a reviewer creates to answer this request. */
+  approve_with: string;
+  reject_with: string;
+}
+
+export interface FileApprovalResponse {
+  approved: boolean;
+  /** Text of the `.rejected` file (plain text or `{"feedback": "..."}`). */
+  feedback?: string;
+}
+
+export function approvalsDir(runDir: string): string {
+  return path.join(runDir, APPROVALS_DIR);
+}
+
+function approvalPaths(runDir: string, phaseId: string): { pending: string; approved: string; rejected: string } {
+  const base = path.join(approvalsDir(runDir), phaseId);
+  return { pending: `${base}.pending.json`, approved: `${base}.approved`, rejected: `${base}.rejected` };
+}
+
+function parseFeedback(raw: string): string | undefined {
+  const text = raw.trim();
+  if (!text) return undefined;
+  try {
+    const parsed = JSON.parse(text) as { feedback?: unknown };
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return typeof parsed.feedback === 'string' && parsed.feedback.trim() ? parsed.feedback.trim() : undefined;
+    }
+  } catch {
+    // plain-text feedback
+  }
+  return text;
+}
+
+/**
+ * Writes `approvals/<phase>.pending.json` and waits until a reviewer creates
+ * `<phase>.approved` or `<phase>.rejected` next to it. Answers left over
+ * from an earlier request are removed first, so only a fresh answer counts.
+ * The request and answer files are deleted once the answer is read.
+ */
+export async function requestFileApproval(
+  runDir: string,
+  request: Omit<FileApprovalRequest, 'requested_at' | 'approve_with' | 'reject_with'>,
+  pollMs: number = DEFAULT_APPROVAL_POLL_MS
+): Promise<FileApprovalResponse> {
+  const paths = approvalPaths(runDir, request.phase);
+  fs.mkdirSync(approvalsDir(runDir), { recursive: true });
+  fs.rmSync(paths.approved, { force: true });
+  fs.rmSync(paths.rejected, { force: true });
+  const pending: FileApprovalRequest = {
+    ...request,
+    requested_at: new Date().toISOString(),
+    approve_with: paths.approved,
+    reject_with: paths.rejected,
+  };
+  fs.writeFileSync(paths.pending, JSON.stringify(pending, null, 2) + '\n');
+
+  for (;;) {
+    // A rejection wins if both files appear between polls.
+    const rejected = fs.existsSync(paths.rejected);
+    if (rejected || fs.existsSync(paths.approved)) {
+      const answerPath = rejected ? paths.rejected : paths.approved;
+      const feedback = parseFeedback(fs.readFileSync(answerPath, 'utf-8'));
+      fs.rmSync(paths.pending, { force: true });
+      fs.rmSync(paths.approved, { force: true });
+      fs.rmSync(paths.rejected, { force: true });
+      return rejected ? { approved: false, feedback } : { approved: true };
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+}
@@ -0,0 +1,195 @@
+// ---------------------------------------------------------------------------
+// Section-Aware Artifact Diff
+// ---------------------------------------------------------------------------
+
+export interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface SectionChange {
+  /** Heading line as written ("## 3. User Stories"), or "(preamble)" for text before the first heading. */
+  heading: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  added: number;
+  removed: number;
+  lines: DiffLine[];
+}
+
+interface Section {
+  heading: string;
+  key: string;
+  body: string[];
+}
+
+const PREAMBLE = '(preamble)';
+// Above this many line pairs a section falls back to a set-based diff instead of LCS.
+const MAX_LCS_CELLS = 4_000_000;
+const DIFF_CONTEXT_LINES = 1;
+
+/** Splits Markdown at every heading (outside code fences); each heading starts a flat section. */
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = [{ heading: PREAMBLE, key: PREAMBLE, body: [] }];
+  let inFence = false;
+  for (const line of markdown.replace(/\r\n/g, '\n').trimEnd().split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      const key = `${match[1].length}:${match[2].toLowerCase().replace(/^[0-9.\s]+/, '').replace(/\s+/g, ' ')}`;
+      sections.push({ heading: line.trim(), key, body: [] });
+    } else {
+      sections[sections.length - 1].body.push(line);
+    }
+  }
+  if (sections[0].body.every((line) => !line.trim())) sections.shift();
+  return sections;
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const kept = new Set(after);
+    const old = new Set(before);
+    return [
+      ...before.filter((line) => !kept.has(line)).map((text): DiffLine => ({ op: '-', text })),
+      ...after.filter((line) => !old.has(line)).map((text): DiffLine => ({ op: '+', text })),
+    ];
+  }
+  const n = before.length;
+  const m = after.length;
+  // lcs[i * (m + 1) + j] = LCS length of before[i..] and after[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = before[i] === after[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      lines.push({ op: ' ', text: before[i++] });
+      j++;
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] > lcs[(i + 1) * (m + 1) + j])) {
+      lines.push({ op: '+', text: after[j++] });
+    } else {
+      lines.push({ op: '-', text: before[i++] });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Compares two versions section by section. Sections are matched by heading
+ * text (ignoring numbering like "4.5" and case) and level; repeated headings
+ * match in order. Results follow the newer version's order, with removed
+ * sections after the section that preceded them.
+ */
+export function diffArtifactSections(before: string, after: string): SectionChange[] {
+  const oldSections = splitSections(before);
+  const newSections = splitSections(after);
+  const unmatched = new Map<string, Section[]>();
+  for (const section of oldSections) {
+    unmatched.set(section.key, [...(unmatched.get(section.key) || []), section]);
+  }
+
+  const matched = new Map<Section, Section>();
+  for (const section of newSections) {
+    const candidates = unmatched.get(section.key);
+    if (candidates && candidates.length > 0) matched.set(section, candidates.shift()!);
+  }
+  const matchedOld = new Set(matched.values());
+
+  const changes: SectionChange[] = [];
+  const removedChange = (section: Section): SectionChange => ({
+    heading: section.heading,
+    status: 'removed',
+    added: 0,
+    removed: section.body.filter((line) => line.trim()).length,
+    lines: section.body.map((text): DiffLine => ({ op: '-', text })),
+  });
+  let oldIndex = 0;
+  for (const section of newSections) {
+    const previous = matched.get(section);
+    if (previous) {
+      // Old sections before this match that were not matched anywhere were removed here.
+      const position = oldSections.indexOf(previous);
+      for (; oldIndex < position; oldIndex++) {
+        if (!matchedOld.has(oldSections[oldIndex])) changes.push(removedChange(oldSections[oldIndex]));
+      }
+      oldIndex = Math.max(oldIndex, position + 1);
+      const lines = diffLines(previous.body, section.body);
+      const added = lines.filter((line) => line.op === '+' && line.text.trim()).length;
+      const removed = lines.filter((line) => line.op === '-' && line.text.trim()).length;
+      const headingChanged = previous.heading !== section.heading;
+      changes.push({
+        heading: headingChanged ? `${previous.heading} -> ${section.heading}` : section.heading,
+        status: added > 0 || removed > 0 || headingChanged ? 'changed' : 'unchanged',
+        added,
+        removed,
+        lines,
+      });
+    } else {
+      changes.push({
+        heading: section.heading,
+        status: 'added',
+        added: section.body.filter((line) => line.trim()).length,
+        removed: 0,
+        lines: section.body.map((text): DiffLine => ({ op: '+', text })),
+      });
+    }
+  }
+  for (; oldIndex < oldSections.length; oldIndex++) {
+    if (!matchedOld.has(oldSections[oldIndex])) changes.push(removedChange(oldSections[oldIndex]));
+  }
+  return changes;
+}
+
+function hunkLines(lines: DiffLine[]): string[] {
+  const keep = lines.map((line) => line.op !== ' ');
+  lines.forEach((line, index) => {
+    if (line.op === ' ') return;
+    for (let offset = -DIFF_CONTEXT_LINES; offset <= DIFF_CONTEXT_LINES; offset++) {
+      if (lines[index + offset]) keep[index + offset] = true;
+    }
+  });
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (!keep[index]) {
+      skipped = true;
+      return;
+    }
+    if (skipped && output.length > 0) output.push('    ...');
+    skipped = false;
+    output.push(`  ${line.op} ${line.text}`);
+  });
+  return output;
+}
+
+/**
+ * Plain-text report: a summary line, then one line per added, removed or
+ * changed section with its line counts. Unless `stat` is set, each is
+ * followed by its changed lines with one line of context.
+ */
+export function renderArtifactDiff(title: string, changes: SectionChange[], opts: { stat?: boolean } = {}): string {
+  const count = (status: SectionChange['status']): number => changes.filter((change) => change.status === status).length;
+  const output = [
+    title,
+    `Sections: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed, ` +
+      `${count('unchanged')} unchanged`,
+  ];
+  const marks: Record<SectionChange['status'], string> = { added: '+', removed: '-', changed: '~', unchanged: ' ' };
+  for (const change of changes) {
+    if (change.status === 'unchanged') continue;
+    output.push('', `${marks[change.status]} ${change.heading} (${change.status}: +${change.added} -${change.removed} lines)`);
+    if (!opts.stat && change.status === 'changed') output.push(...hunkLines(change.lines));
+    if (!opts.stat && change.status !== 'changed') {
+      output.push(...change.lines.filter((line) => line.text.trim()).map((line) => `  ${line.op} ${line.text}`));
+    }
+  }
+  if (changes.every((change) => change.status === 'unchanged')) output.push('', 'No changes.');
+  return output.join('\n') + '\n';
+}
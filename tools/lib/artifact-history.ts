@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Artifact History
+// ---------------------------------------------------------------------------
+
+/**
+ * Why a version was recorded:
+ * - existing: the artifact already on disk when history started (older runs)
+ * - generated: a phase agent call (first run, re-run, variant, reviewer feedback)
+ * - repair: a structural repair pass rewrote the draft
+ * - section-backfill: missing or failing sections were written into the draft
+ * - variant-selected: the judge picked a candidate other than the latest draft
+ * - remediation: Phase 11/12 re-evaluated the artifact after fixing the app
+ * - reviewer-edit: edited at a review gate
+ * - plugin: written by a phase plugin
+ * - imported: supplied from outside the pipeline
+ */
+export type ArtifactChangeReason =
+  | 'existing'
+  | 'generated'
+  | 'repair'
+  | 'section-backfill'
+  | 'variant-selected'
+  | 'remediation'
+  | 'reviewer-edit'
+  | 'plugin'
+  | 'imported';
+
+export interface ArtifactVersion {
+  /** Artifact file name, e.g. "03_prd.md". */
+  file: string;
+  /** 1-based, per artifact. */
+  version: number;
+  phase: string;
+  reason: ArtifactChangeReason;
+  /** Specifics of the reason: the warnings a repair fixed, the sections backfilled, ... */
+  detail?: string;
+  /** Agent scope label that produced the version, when there was one. */
+  scope?: string;
+  recorded_at: string;
+  chars: number;
+}
+
+interface ArtifactHistoryManifest {
+  version: 1;
+  versions: ArtifactVersion[];
+}
+
+export interface ArtifactHistorySummary {
+  file: string;
+  versions: number;
+  /** Versions after the first. */
+  regenerations: number;
+  reasons: Partial<Record<ArtifactChangeReason, number>>;
+}
+
+export const ARTIFACT_HISTORY_DIR = 'history';
+const HISTORY_MANIFEST_FILE = 'index.json';
+const MAX_DETAIL_CHARS = 300;
+
+export function artifactHistoryDir(artifactsDir: string): string {
+  return path.join(artifactsDir, ARTIFACT_HISTORY_DIR);
+}
+
+/** Saved copy of one version: `history/03_prd.2.md`. */
+export function artifactVersionPath(artifactsDir: string, file: string, version: number): string {
+  return path.join(artifactHistoryDir(artifactsDir), `${file.replace(/\.md$/, '')}.${version}.md`);
+}
+
+function loadManifest(artifactsDir: string): ArtifactHistoryManifest {
+  const manifestPath = path.join(artifactHistoryDir(artifactsDir), HISTORY_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return { version: 1, versions: [] };
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as ArtifactHistoryManifest;
+}
+
+function saveManifest(artifactsDir: string, manifest: ArtifactHistoryManifest): void {
+  fs.mkdirSync(artifactHistoryDir(artifactsDir), { recursive: true });
+  fs.writeFileSync(
+    path.join(artifactHistoryDir(artifactsDir), HISTORY_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + '\n'
+  );
+}
+
+/** Recorded versions, oldest first; all artifacts unless `file` is given. */
+export function loadArtifactHistory(artifactsDir: string, file?: string): ArtifactVersion[] {
+  const versions = loadManifest(artifactsDir).versions;
+  return file ? versions.filter((entry) => entry.file === file) : versions;
+}
+
+export function readArtifactVersion(artifactsDir: string, entry: ArtifactVersion): string {
+  return fs.readFileSync(artifactVersionPath(artifactsDir, entry.file, entry.version), 'utf-8');
+}
+
+/**
+ * Saves `content` as the artifact's next version. Returns null without
+ * recording when it matches the latest version. The first version recorded
+ * for an artifact that already exists on disk is preceded by that file,
+ * so history started mid-run still shows what was overwritten.
+ */
+export function recordArtifactVersion(
+  artifactsDir: string,
+  file: string,
+  content: string,
+  entry: { phase: string; reason: ArtifactChangeReason; detail?: string; scope?: string }
+): ArtifactVersion | null {
+  const manifest = loadManifest(artifactsDir);
+  const existing = manifest.versions.filter((version) => version.file === file);
+  const append = (text: string, fields: typeof entry): ArtifactVersion => {
+    const version: ArtifactVersion = {
+      file,
+      version: existing.length + 1,
+      phase: fields.phase,
+      reason: fields.reason,
+      ...(fields.detail ? { detail: fields.detail.replace(/\s+/g, ' ').trim().slice(0, MAX_DETAIL_CHARS) } : {}),
+      ...(fields.scope ? { scope: fields.scope } : {}),
+      recorded_at: new Date().toISOString(),
+      chars: text.trim().length,
+    };
+    fs.mkdirSync(artifactHistoryDir(artifactsDir), { recursive: true });
+    fs.writeFileSync(artifactVersionPath(artifactsDir, file, version.version), text.trim() + '\n');
+    existing.push(version);
+    manifest.versions.push(version);
+    return version;
+  };
+
+  const artifactPath = path.join(artifactsDir, file);
+  if (existing.length === 0 && fs.existsSync(artifactPath)) {
+    const onDisk = fs.readFileSync(artifactPath, 'utf-8');
+    if (onDisk.trim() !== content.trim()) {
+      append(onDisk, { phase: entry.phase, reason: 'existing', detail: 'artifact on disk before history was kept' });
+    }
+  }
+  const latest = existing[existing.length - 1];
+  if (latest && readArtifactVersion(artifactsDir, latest).trim() === content.trim()) {
+    if (latest.reason === 'existing') saveManifest(artifactsDir, manifest);
+    return null;
+  }
+  const version = append(content, entry);
+  saveManifest(artifactsDir, manifest);
+  return version;
+}
+
+/** Copies the history of the given artifacts into another run (used by forks). */
+export function copyArtifactHistory(sourceArtifactsDir: string, targetArtifactsDir: string, files: string[]): void {
+  const versions = loadArtifactHistory(sourceArtifactsDir).filter((entry) => files.includes(entry.file));
+  if (versions.length === 0) return;
+  fs.mkdirSync(artifactHistoryDir(targetArtifactsDir), { recursive: true });
+  for (const entry of versions) {
+    fs.copyFileSync(
+      artifactVersionPath(sourceArtifactsDir, entry.file, entry.version),
+      artifactVersionPath(targetArtifactsDir, entry.file, entry.version)
+    );
+  }
+  saveManifest(targetArtifactsDir, { version: 1, versions });
+}
+
+/** Per-artifact version counts and reasons, in the order artifacts were first recorded. */
+export function summarizeArtifactHistory(versions: ArtifactVersion[]): ArtifactHistorySummary[] {
+  const summaries = new Map<string, ArtifactHistorySummary>();
+  for (const entry of versions) {
+    const summary = summaries.get(entry.file) || { file: entry.file, versions: 0, regenerations: 0, reasons: {} };
+    summary.versions++;
+    summary.regenerations = summary.versions - 1;
+    summary.reasons[entry.reason] = (summary.reasons[entry.reason] || 0) + 1;
+    summaries.set(entry.file, summary);
+  }
+  return Array.from(summaries.values());
+}
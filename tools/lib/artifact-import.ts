@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Artifact Import
+// ---------------------------------------------------------------------------
+
+/** One `--import-artifact <phase>=<path>` argument. */
+export interface ArtifactImportSpec {
+  phase: string;
+  /** Absolute path of the human-authored Markdown file. */
+  file: string;
+}
+
+export function parseArtifactImport(value: string | undefined): ArtifactImportSpec {
+  const match = (value || '').match(/^\s*([^=\s]+)\s*=\s*(.+?)\s*$/);
+  if (!match) {
+    throw new Error(`Invalid --import-artifact value: "${value ?? ''}". Expected <phase>=<path>, e.g. 4=docs/prd.md.`);
+  }
+  return { phase: match[1], file: path.resolve(match[2]) };
+}
+
+/** Reads an import file as artifact Markdown (BOM and CRLF line endings removed). */
+export function readImportedArtifact(spec: ArtifactImportSpec): string {
+  if (!fs.existsSync(spec.file) || !fs.statSync(spec.file).isFile()) {
+    throw new Error(`Import file for phase ${spec.phase} not found: ${spec.file}`);
+  }
+  const content = fs.readFileSync(spec.file, 'utf-8').replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').trim();
+  if (!content) {
+    throw new Error(`Import file for phase ${spec.phase} is empty: ${spec.file}`);
+  }
+  return content;
+}
@@ -0,0 +1,150 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentOptions, AgentResult } from './agent';
+
+// ---------------------------------------------------------------------------
+// Agent Cassettes (record / replay)
+// ---------------------------------------------------------------------------
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * One recorded agent invocation. The output text is stored next to the
+ * cassette as `<key>.md` so it can be read and diffed directly.
+ */
+export interface Cassette {
+  version: number;
+  key: string;
+  prompt_sha256: string;
+  occurrence: number;
+  label: string | null;
+  engine: string;
+  recorded_at: string;
+  result: Omit<AgentResult, 'output'>;
+}
+
+// Identical prompts can be sent more than once in a run (retries, repeated
+// repairs), so each prompt hash is numbered by how often it has been seen.
+const recordCounters = new Map<string, number>();
+const replayCounters = new Map<string, number>();
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt, 'utf-8').digest('hex');
+}
+
+function nextOccurrence(counters: Map<string, number>, cassetteDir: string, hash: string): number {
+  const counterKey = `${cassetteDir}:${hash}`;
+  const occurrence = counters.get(counterKey) || 0;
+  counters.set(counterKey, occurrence + 1);
+  return occurrence;
+}
+
+function cassetteKey(hash: string, occurrence: number): string {
+  return `${hash.slice(0, 16)}-${occurrence}`;
+}
+
+/**
+ * Next free occurrence for recording a prompt hash. The first recording in a
+ * process starts after the highest occurrence already on disk, so recording
+ * into an existing cassette dir (a resumed run) never overwrites cassettes.
+ */
+function nextRecordOccurrence(cassetteDir: string, hash: string): number {
+  const counterKey = `${cassetteDir}:${hash}`;
+  if (!recordCounters.has(counterKey) && fs.existsSync(cassetteDir)) {
+    const prefix = `${hash.slice(0, 16)}-`;
+    const recorded = fs
+      .readdirSync(cassetteDir)
+      .filter((name) => name.startsWith(prefix) && name.endsWith('.json'))
+      .map((name) => Number(name.slice(prefix.length, -'.json'.length)))
+      .filter((occurrence) => Number.isInteger(occurrence));
+    if (recorded.length > 0) recordCounters.set(counterKey, Math.max(...recorded) + 1);
+  }
+  return nextOccurrence(recordCounters, cassetteDir, hash);
+}
+
+function listCassettes(cassetteDir: string): Cassette[] {
+  if (!fs.existsSync(cassetteDir)) return [];
+  return fs
+    .readdirSync(cassetteDir)
+    .filter((name) => name.endsWith('.json'))
+    .sort()
+    .map((name) => JSON.parse(fs.readFileSync(path.join(cassetteDir, name), 'utf-8')) as Cassette);
+}
+
+export function saveCassette(
+  cassetteDir: string,
+  prompt: string,
+  options: AgentOptions,
+  result: AgentResult
+): string {
+  fs.mkdirSync(cassetteDir, { recursive: true });
+  const hash = hashPrompt(prompt);
+  const occurrence = nextRecordOccurrence(cassetteDir, hash);
+  const key = cassetteKey(hash, occurrence);
+  const { output, ...rest } = result;
+
+  const cassette: Cassette = {
+    version: CASSETTE_VERSION,
+    key,
+    prompt_sha256: hash,
+    occurrence,
+    label: options.label || null,
+    engine: result.engine || options.engine || 'claude',
+    recorded_at: new Date().toISOString(),
+    result: rest,
+  };
+  fs.writeFileSync(path.join(cassetteDir, `${key}.json`), JSON.stringify(cassette, null, 2) + '\n');
+  fs.writeFileSync(path.join(cassetteDir, `${key}.md`), output);
+  return key;
+}
+
+/**
+ * Finds the recorded result for a prompt.
+ *
+ * Lookup order: exact prompt hash and occurrence, then the last recording of
+ * the same prompt hash, then the last recording with the same label (for
+ * prompts that embed values which change between runs, such as timestamps).
+ */
+export function loadCassette(
+  cassetteDir: string,
+  prompt: string,
+  options: AgentOptions
+): { cassette: Cassette; output: string; match: 'exact' | 'prompt' | 'label' } {
+  const hash = hashPrompt(prompt);
+  const occurrence = nextOccurrence(replayCounters, cassetteDir, hash);
+  const cassettes = listCassettes(cassetteDir);
+  if (cassettes.length === 0) {
+    throw new Error(`No cassettes found in ${cassetteDir}. Record a run with --record first.`);
+  }
+
+  const samePrompt = cassettes
+    .filter((c) => c.prompt_sha256 === hash)
+    .sort((a, b) => a.occurrence - b.occurrence);
+  const exact = samePrompt.find((c) => c.occurrence === occurrence);
+  const sameLabel = options.label ? cassettes.filter((c) => c.label === options.label) : [];
+
+  let cassette: Cassette | undefined;
+  let match: 'exact' | 'prompt' | 'label';
+  if (exact) {
+    cassette = exact;
+    match = 'exact';
+  } else if (samePrompt.length > 0) {
+    cassette = samePrompt[samePrompt.length - 1];
+    match = 'prompt';
+  } else {
+    cassette = sameLabel[sameLabel.length - 1];
+    match = 'label';
+  }
+
+  if (!cassette) {
+    throw new Error(
+      `No cassette recorded for prompt ${hash.slice(0, 16)}` +
+      `${options.label ? ` (${options.label})` : ''} in ${cassetteDir}`
+    );
+  }
+
+  const outputPath = path.join(cassetteDir, `${cassette.key}.md`);
+  const output = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf-8') : '';
+  return { cassette, output, match };
+}
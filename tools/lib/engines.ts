@@ -0,0 +1,719 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentOptions, AgentResult } from './agent';
+import { loadCassette } from './cassettes';
+import { runMockAgent } from './mock-engine';
+import { estimateCostFromRateCard } from './pricing';
+
+/**
+ * Engine identifier. Built-in engines are `claude` and `codex`; additional
+ * engines become valid once their adapter is registered.
+ */
+export type Engine = string;
+
+// ---------------------------------------------------------------------------
+// Adapter Contract
+// ---------------------------------------------------------------------------
+
+/**
+ * State accumulated from an engine's JSON event stream.
+ * Adapters fold events into this shape; runAgent derives heartbeats,
+ * final output, and usage stats from it.
+ */
+export interface AgentStreamState {
+  turn: number;
+  lastTool: string;
+  textBytes: number;
+  finalText: string;
+  lastAssistantText: string;
+  longestAssistantText: string;
+  accumulatedText: string;
+  numTurns: number | null;
+  costUsd: number | null;
+  /** Uncached input tokens; cache reads and writes are counted separately. */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  stopReason: string;
+  resultSubtype: string;
+  /** Engine session/thread id, when the engine reports one. */
+  sessionId: string;
+}
+
+export interface StreamParseHelpers {
+  /** Formats a tool name with brief context (file name, pattern, or command). */
+  briefTool(name: string, input: unknown): string;
+}
+
+export interface EngineCommand {
+  cmd: string;
+  args: string[];
+}
+
+export interface EngineInvocation {
+  /** Temp file the engine may write its final message to, when supported. */
+  outputFile: string;
+}
+
+export interface EngineOutputContext {
+  rawStdout: string;
+  outputFile: string;
+  options: AgentOptions;
+}
+
+export interface EngineOutput {
+  output: string;
+  outputSource: string;
+  /** Extra diagnostic lines printed to stderr after the run. */
+  diagnostics: string[];
+}
+
+export interface EngineAdapter {
+  /** Identifier accepted by --engine and persisted in RunConfig.engine. */
+  id: string;
+  /** Human-readable name used in logs and reports. */
+  displayName: string;
+  /**
+   * Probes the installed CLI for optional flags. Implementations should cache the result.
+   * `sessionResume: true` means buildCommand honours `options.resumeSessionId`.
+   */
+  detectCapabilities(): Record<string, boolean>;
+  buildCommand(options: AgentOptions, invocation: EngineInvocation): EngineCommand;
+  /** Folds one parsed stdout JSON event into the stream state as it arrives. */
+  parseEvent(event: unknown, state: AgentStreamState, helpers: StreamParseHelpers): void;
+  /** Selects the final text output once the process has exited. */
+  finalizeOutput(state: AgentStreamState, context: EngineOutputContext): EngineOutput;
+  /**
+   * Estimates USD cost from token usage when the engine does not report an
+   * exact cost. Return 0 when no estimate is available.
+   */
+  estimateCostUsd(result: AgentResult): number;
+  /**
+   * Optional in-process runner for engines that do not spawn a CLI. When
+   * present, runAgent calls it instead of building and spawning a command.
+   */
+  execute?(prompt: string, options: AgentOptions): AgentResult | Promise<AgentResult>;
+}
+
+export function createStreamState(): AgentStreamState {
+  return {
+    turn: 0,
+    lastTool: '',
+    textBytes: 0,
+    finalText: '',
+    lastAssistantText: '',
+    longestAssistantText: '',
+    accumulatedText: '',
+    numTurns: null,
+    costUsd: null,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    stopReason: '',
+    resultSubtype: '',
+    sessionId: '',
+  };
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** The value as a JSON object, or null for primitives, arrays and null. */
+function asObject(value: unknown): JsonObject | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function briefTool(name: string, input: unknown): string {
+  if (!input || typeof input !== 'object') return name;
+  const fields = input as Record<string, unknown>;
+  const fp = String(fields.file_path || fields.path || '');
+  if (fp) return name + '(' + fp.split('/').pop() + ')';
+  const pat = String(fields.pattern || '');
+  if (pat) return name + '(' + pat.substring(0, 30) + ')';
+  const cmd = String(fields.command || '');
+  if (cmd) return name + '(' + cmd.substring(0, 30) + ')';
+  return name;
+}
+
+export const STREAM_PARSE_HELPERS: StreamParseHelpers = { briefTool };
+
+// ---------------------------------------------------------------------------
+// Claude Adapter
+// ---------------------------------------------------------------------------
+
+const ARTIFACT_OPEN = '<artifact_output>';
+const ARTIFACT_CLOSE = '</artifact_output>';
+const ARTIFACT_END = '<!-- END_ARTIFACT -->';
+
+// Handles stream-json events and json-mode result objects.
+function parseClaudeEvent(raw: unknown, state: AgentStreamState, helpers: StreamParseHelpers): void {
+  const event = asObject(raw);
+  if (!event) return;
+
+  // system init, assistant and result events all carry the session id
+  if (asString(event.session_id)) {
+    state.sessionId = asString(event.session_id);
+  }
+
+  const applyResultPayload = (payload: JsonObject): void => {
+    if (typeof payload.result === 'string') {
+      state.finalText = payload.result;
+      if (state.finalText.trim().length > 0) {
+        state.textBytes = Math.max(state.textBytes, Buffer.byteLength(state.finalText.trim()));
+      }
+    }
+    state.numTurns = asNumber(payload.num_turns) ?? state.numTurns;
+    state.costUsd = asNumber(payload.total_cost_usd) ?? state.costUsd;
+    state.inputTokens = asNumber(payload.input_tokens) ?? state.inputTokens;
+    state.outputTokens = asNumber(payload.output_tokens) ?? state.outputTokens;
+    const usage = asObject(payload.usage);
+    if (usage) {
+      state.inputTokens = asNumber(usage.input_tokens) ?? state.inputTokens;
+      state.outputTokens = asNumber(usage.output_tokens) ?? state.outputTokens;
+      state.cacheReadTokens = asNumber(usage.cache_read_input_tokens) ?? state.cacheReadTokens;
+      state.cacheWriteTokens = asNumber(usage.cache_creation_input_tokens) ?? state.cacheWriteTokens;
+    }
+
+    if (typeof payload.subtype === 'string') {
+      state.resultSubtype = payload.subtype;
+    } else if (typeof payload.result_subtype === 'string') {
+      state.resultSubtype = payload.result_subtype;
+    }
+
+    if (typeof payload.stop_reason === 'string') {
+      state.stopReason = payload.stop_reason;
+    } else if (typeof payload.stopReason === 'string') {
+      state.stopReason = payload.stopReason;
+    }
+  };
+
+  // stream-json assistant event
+  const content = asObject(event.message)?.content;
+  if (event.type === 'assistant' && Array.isArray(content)) {
+    let hasTool = false;
+    let assistantText = '';
+    for (const block of content.map(asObject)) {
+      if (block?.type === 'text') {
+        assistantText += asString(block.text);
+      }
+      if (block?.type === 'tool_use') {
+        hasTool = true;
+        state.lastTool = helpers.briefTool(asString(block.name), block.input);
+      }
+    }
+    if (assistantText.trim().length > 0) {
+      const trimmed = assistantText.trim();
+      state.lastAssistantText = trimmed;
+      if (trimmed.length > state.longestAssistantText.length) {
+        state.longestAssistantText = trimmed;
+      }
+      if (trimmed.length > state.accumulatedText.length) {
+        state.accumulatedText = trimmed;
+      }
+      state.textBytes = Math.max(state.textBytes, Buffer.byteLength(trimmed));
+    }
+    if (hasTool) state.turn++;
+  }
+
+  // stream-json final event
+  if (event.type === 'result') {
+    applyResultPayload(event);
+    return;
+  }
+
+  // json mode can emit a single result object (without type)
+  if (!event.type && ('result' in event || 'stop_reason' in event || 'num_turns' in event)) {
+    applyResultPayload(event);
+  }
+}
+
+function tryParseJsonPayload(raw: string): unknown {
+  const trimmed = (raw || '').trim();
+  if (!trimmed) return null;
+
+  // Best case: single JSON object payload.
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // continue
+  }
+
+  // Fallback: parse last JSON-looking line/object from mixed output.
+  const lines = trimmed.split('\n').map((line) => line.trim()).filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    if (!line.startsWith('{')) continue;
+    try {
+      return JSON.parse(line);
+    } catch {
+      // continue
+    }
+  }
+
+  // Fallback: parse largest bracketed object in the raw output.
+  const firstBrace = trimmed.indexOf('{');
+  const lastBrace = trimmed.lastIndexOf('}');
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    try {
+      return JSON.parse(trimmed.slice(firstBrace, lastBrace + 1));
+    } catch {
+      // continue
+    }
+  }
+
+  return null;
+}
+
+function scoreClaudeCandidate(text: string): number {
+  const trimmed = (text || '').trim();
+  if (!trimmed) return -1;
+
+  const contains = (needle: string): boolean => trimmed.toLowerCase().includes(needle.toLowerCase());
+  let score = 0;
+  if (contains(ARTIFACT_OPEN)) score += 4;
+  if (contains(ARTIFACT_CLOSE)) score += 4;
+  if (contains(ARTIFACT_END)) score += 8;
+  if (/^#{1,3}\s/m.test(trimmed)) score += 1;
+  if (trimmed.length > 8192) score += 2;
+  if (trimmed.length === 8192) score -= 1;
+  score += Math.min(Math.floor(trimmed.length / 4096), 5);
+  return score;
+}
+
+function selectClaudeOutput(state: AgentStreamState): { source: string; text: string } {
+  const rawCandidates = [
+    { source: 'result', text: state.finalText || '' },
+    { source: 'last_assistant', text: state.lastAssistantText || '' },
+    { source: 'longest_assistant', text: state.longestAssistantText || '' },
+    { source: 'accumulated_assistant', text: state.accumulatedText || '' },
+  ];
+
+  const seen = new Set<string>();
+  let best = { source: 'result', text: state.finalText || '', score: -1 };
+
+  for (const candidate of rawCandidates) {
+    const trimmed = candidate.text.trim();
+    if (!trimmed || seen.has(trimmed)) continue;
+    seen.add(trimmed);
+
+    const score = scoreClaudeCandidate(trimmed);
+    if (score > best.score || (score === best.score && trimmed.length > best.text.trim().length)) {
+      best = { source: candidate.source, text: trimmed, score };
+    }
+  }
+
+  return best;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+const claudeAdapter: EngineAdapter = {
+  id: 'claude',
+  displayName: 'Claude',
+  detectCapabilities: () => ({ sessionResume: true }),
+  buildCommand: (options) => {
+    const { maxTurns, permissions, webSearch } = options;
+    const outputFormat = options.claudeOutputFormat || 'json';
+    const args: string[] = ['-p', '--output-format', outputFormat];
+
+    // In json mode we prefer deterministic stdout payloads over debug chatter.
+    // Verbose mode can emit extra output that complicates strict JSON parsing.
+    if (outputFormat === 'stream-json') {
+      args.push('--verbose');
+    }
+
+    if (maxTurns) args.push('--max-turns', String(maxTurns));
+    if (options.model) args.push('--model', options.model);
+    if (options.resumeSessionId) args.push('--resume', options.resumeSessionId);
+
+    // Build allowed tools list based on permissions.
+    // When permissions is unset, no --allowedTools is passed and the agent
+    // gets its default tool set.
+    if (permissions) {
+      const tools: string[] = ['Read', 'Glob', 'Grep'];
+      if (permissions === 'read-write') {
+        tools.push('Edit', 'Write', 'Bash');
+      }
+      if (webSearch) {
+        tools.push('WebSearch', 'WebFetch');
+      }
+      args.push('--allowedTools', tools.join(','));
+    }
+
+    return { cmd: 'claude', args };
+  },
+  parseEvent: parseClaudeEvent,
+  finalizeOutput: (state, context) => {
+    const outputFormat = context.options.claudeOutputFormat || 'json';
+    if (state.finalText.trim().length === 0 && outputFormat === 'json') {
+      const parsed = tryParseJsonPayload(context.rawStdout);
+      if (parsed) {
+        parseClaudeEvent(parsed, state, STREAM_PARSE_HELPERS);
+      }
+    }
+
+    let output = state.finalText || '';
+    let outputSource = 'result';
+    if (outputFormat === 'stream-json') {
+      const selected = selectClaudeOutput(state);
+      output = selected.text;
+      outputSource = selected.source;
+    } else if (output.trim().length === 0) {
+      output = state.lastAssistantText || state.longestAssistantText || state.accumulatedText;
+      outputSource = 'assistant_fallback';
+    }
+    if (output.trim().length === 0) {
+      output = state.accumulatedText;
+      outputSource = 'accumulated_assistant';
+    }
+    if (output.trim().length === 0 && outputFormat === 'json') {
+      const rawFallback = context.rawStdout.trim();
+      if (rawFallback.length > 0) {
+        output = rawFallback;
+        outputSource = 'raw_stdout_fallback';
+      }
+    }
+
+    const diagnostics = [
+      `Claude output source: ${outputSource}` +
+        ` | format=${outputFormat}` +
+        ` | result=${formatSize(Buffer.byteLength(state.finalText || ''))}` +
+        ` | selected=${formatSize(Buffer.byteLength(output || ''))}` +
+        ` | subtype=${state.resultSubtype || 'n/a'}` +
+        ` | stop_reason=${state.stopReason || 'n/a'}`,
+    ];
+    if (
+      outputFormat === 'stream-json' &&
+      state.finalText.trim().length > 0 &&
+      output.trim().length > 0 &&
+      state.finalText.trim() !== output.trim()
+    ) {
+      diagnostics.push('Claude mismatch: selected output differs from result payload.');
+    }
+
+    return { output, outputSource, diagnostics };
+  },
+  // Used only when the result payload carries no exact cost.
+  estimateCostUsd: estimateCostFromRateCard,
+};
+
+// ---------------------------------------------------------------------------
+// Codex Adapter
+// ---------------------------------------------------------------------------
+
+interface CodexCapabilities {
+  supportsAskForApproval: boolean;
+  supportsSearch: boolean;
+  supportsOutputLastMessage: boolean;
+  supportsExecResume: boolean;
+}
+
+let codexCapabilitiesCache: CodexCapabilities | null = null;
+
+function getCodexCapabilities(): CodexCapabilities {
+  if (codexCapabilitiesCache) return codexCapabilitiesCache;
+
+  try {
+    const topLevelHelp = spawnSync('codex', ['--help'], {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      timeout: 10_000,
+    });
+    const execHelp = spawnSync('codex', ['exec', '--help'], {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      timeout: 10_000,
+    });
+    const topHelpText = `${topLevelHelp.stdout || ''}\n${topLevelHelp.stderr || ''}`;
+    const execHelpText = `${execHelp.stdout || ''}\n${execHelp.stderr || ''}`;
+    codexCapabilitiesCache = {
+      supportsAskForApproval:
+        topHelpText.includes('--ask-for-approval') || topHelpText.includes('-a, --ask-for-approval'),
+      supportsSearch: topHelpText.includes('--search'),
+      supportsOutputLastMessage:
+        execHelpText.includes('--output-last-message') || execHelpText.includes('-o, --output-last-message'),
+      supportsExecResume: /^\s+resume\b/m.test(execHelpText),
+    };
+  } catch {
+    // Conservative defaults when detection fails.
+    codexCapabilitiesCache = {
+      supportsAskForApproval: false,
+      supportsSearch: false,
+      supportsOutputLastMessage: false,
+      supportsExecResume: false,
+    };
+  }
+
+  return codexCapabilitiesCache;
+}
+
+// Events: thread.started, turn.started, turn.completed, item.started, item.completed
+function parseCodexEvent(raw: unknown, state: AgentStreamState, helpers: StreamParseHelpers): void {
+  const event = asObject(raw);
+  if (!event) return;
+
+  if (event.type === 'thread.started' && typeof event.thread_id === 'string') {
+    state.sessionId = event.thread_id;
+  }
+
+  if (event.type === 'turn.started') {
+    state.turn++;
+  }
+  const item = asObject(event.item);
+  if (event.type === 'item.completed' && item) {
+    if (item.type === 'agent_message') {
+      state.accumulatedText += asString(item.text);
+      state.finalText = state.accumulatedText;
+      state.textBytes = Buffer.byteLength(state.finalText);
+    }
+    if (item.type === 'command_execution') {
+      state.lastTool = 'Bash(' + asString(item.command).substring(0, 30) + ')';
+    }
+    if (item.type === 'mcp_tool_call') {
+      state.lastTool = helpers.briefTool(asString(item.tool) || 'tool', item.arguments);
+    }
+    if (item.type === 'file_change') {
+      const fname = asString(item.file).split('/').pop() || 'file';
+      state.lastTool = 'FileChange(' + fname + ')';
+    }
+  }
+  const usage = asObject(event.usage);
+  if (event.type === 'turn.completed' && usage) {
+    // Codex counts cached tokens inside input_tokens.
+    const cached = asNumber(usage.cached_input_tokens) ?? 0;
+    state.inputTokens += Math.max(0, (asNumber(usage.input_tokens) ?? 0) - cached);
+    state.cacheReadTokens += cached;
+    state.outputTokens += asNumber(usage.output_tokens) ?? 0;
+  }
+}
+
+const codexAdapter: EngineAdapter = {
+  id: 'codex',
+  displayName: 'Codex',
+  detectCapabilities: () => {
+    const capabilities = getCodexCapabilities();
+    return { ...capabilities, sessionResume: capabilities.supportsExecResume };
+  },
+  buildCommand: (options, invocation) => {
+    const { permissions, webSearch } = options;
+    const args: string[] = [];
+    const capabilities = getCodexCapabilities();
+
+    // Codex global flags must appear before the subcommand.
+    if (capabilities.supportsAskForApproval) {
+      args.push('-a', 'never');
+    }
+
+    if (webSearch && capabilities.supportsSearch) {
+      args.push('--search');
+    }
+
+    args.push('exec', '--json');
+    if (options.model) {
+      args.push('--model', options.model);
+    }
+    if (capabilities.supportsOutputLastMessage) {
+      args.push('--output-last-message', invocation.outputFile);
+    }
+
+    // Sandbox mode based on permissions
+    if (permissions === 'read-only') {
+      args.push('--sandbox', 'read-only');
+    } else {
+      // read-write or unspecified: allow workspace writes
+      args.push('--sandbox', 'workspace-write');
+    }
+
+    // `exec resume <id>` takes the same exec flags; the prompt still arrives on stdin.
+    if (options.resumeSessionId && capabilities.supportsExecResume) {
+      args.push('resume', options.resumeSessionId);
+    }
+
+    return { cmd: 'codex', args };
+  },
+  parseEvent: parseCodexEvent,
+  finalizeOutput: (state, context) => {
+    let output = state.finalText || state.accumulatedText;
+    let outputSource = state.finalText ? 'result' : 'accumulated_assistant';
+    if (fs.existsSync(context.outputFile)) {
+      try {
+        const fileOutput = fs.readFileSync(context.outputFile, 'utf-8').trim();
+        if (fileOutput.length > 0) {
+          output = fileOutput;
+        }
+      } catch {
+        // Fall back to stream-parsed output if reading file fails.
+      }
+    }
+    return { output, outputSource, diagnostics: [] };
+  },
+  estimateCostUsd: estimateCostFromRateCard,
+};
+
+// ---------------------------------------------------------------------------
+// Replay Adapter
+// ---------------------------------------------------------------------------
+
+// Serves results recorded with --record from the run's cassette directory,
+// without spawning a CLI or touching the network.
+const replayAdapter: EngineAdapter = {
+  id: 'replay',
+  displayName: 'Replay',
+  detectCapabilities: () => ({}),
+  buildCommand: () => {
+    throw new Error('The replay engine does not spawn a CLI.');
+  },
+  parseEvent: () => {},
+  finalizeOutput: (state) => ({ output: state.finalText, outputSource: 'result', diagnostics: [] }),
+  // Replayed calls cost nothing; the original spend is kept as recordedCostUsd.
+  estimateCostUsd: () => 0,
+  execute: (prompt, options) => {
+    if (!options.cassetteDir) {
+      throw new Error('The replay engine requires a cassette directory.');
+    }
+    const { cassette, output, match } = loadCassette(options.cassetteDir, prompt, options);
+    console.log(
+      `  [agent] Engine: replay | Cassette: ${cassette.key} (${match} match` +
+      `${cassette.label ? `, recorded as ${cassette.label}` : ''}) | Engine recorded: ${cassette.engine}` +
+      ` | Recorded cost: $${(cassette.result.costUsd || 0).toFixed(4)}`
+    );
+    if (match !== 'exact') {
+      process.stderr.write(`  [agent] Prompt differs from the recording; replaying closest cassette.\n`);
+    }
+    return {
+      ...cassette.result,
+      output,
+      engine: cassette.engine,
+      costUsd: 0,
+      recordedCostUsd: cassette.result.costUsd,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Mock Adapter
+// ---------------------------------------------------------------------------
+
+// Serves canned outputs, file edits, costs and failures from a fixture file
+// keyed by phase/scope label, for exercising pipeline control flow.
+const mockAdapter: EngineAdapter = {
+  id: 'mock',
+  displayName: 'Mock',
+  detectCapabilities: () => ({}),
+  buildCommand: () => {
+    throw new Error('The mock engine does not spawn a CLI.');
+  },
+  parseEvent: () => {},
+  finalizeOutput: (state) => ({ output: state.finalText, outputSource: 'result', diagnostics: [] }),
+  // Fixtures state costs explicitly.
+  estimateCostUsd: () => 0,
+  execute: (_prompt, options) => {
+    if (!options.mockFixture) {
+      throw new Error('The mock engine requires a fixture file (--mock-fixture <path>).');
+    }
+    return runMockAgent(options.mockFixture, options);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const ENGINE_ADAPTERS = new Map<string, EngineAdapter>();
+const SAFE_ENGINE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+export function registerEngineAdapter(adapter: EngineAdapter): void {
+  if (!adapter || typeof adapter !== 'object') {
+    throw new Error('Engine adapter must be an object.');
+  }
+  if (!SAFE_ENGINE_ID_PATTERN.test(adapter.id || '')) {
+    throw new Error(
+      `Invalid engine adapter id: "${adapter.id}". Must match pattern: ${SAFE_ENGINE_ID_PATTERN}`
+    );
+  }
+  for (const method of ['detectCapabilities', 'buildCommand', 'parseEvent', 'finalizeOutput', 'estimateCostUsd'] as const) {
+    if (typeof adapter[method] !== 'function') {
+      throw new Error(`Engine adapter "${adapter.id}" is missing ${method}().`);
+    }
+  }
+  if (adapter.execute !== undefined && typeof adapter.execute !== 'function') {
+    throw new Error(`Engine adapter "${adapter.id}" execute must be a function when provided.`);
+  }
+  ENGINE_ADAPTERS.set(adapter.id, adapter);
+}
+
+export function hasEngineAdapter(id: string): boolean {
+  return ENGINE_ADAPTERS.has(id);
+}
+
+export function getEngineAdapter(id: string): EngineAdapter {
+  const adapter = ENGINE_ADAPTERS.get(id);
+  if (!adapter) {
+    throw new Error(`Unknown engine: "${id}". Registered engines: ${listEngineIds().join(', ')}`);
+  }
+  return adapter;
+}
+
+export function listEngineIds(): string[] {
+  return Array.from(ENGINE_ADAPTERS.keys());
+}
+
+/** True when the engine can continue an earlier session (see detectCapabilities). */
+export function supportsSessionResume(id: string): boolean {
+  return hasEngineAdapter(id) && getEngineAdapter(id).detectCapabilities().sessionResume === true;
+}
+
+/**
+ * Loads engine adapters from a local module and registers them.
+ * The module may export `default`, `adapter`, or `adapters` (an array).
+ * Returns the registered engine ids.
+ */
+export function loadEngineAdapterModule(modulePath: string): string[] {
+  const resolved = path.resolve(modulePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Engine module not found: ${resolved}`);
+  }
+  const loaded = require(resolved) as Record<string, unknown>;
+  const candidates: unknown[] = [];
+  if (Array.isArray(loaded.adapters)) candidates.push(...loaded.adapters);
+  if (loaded.adapter) candidates.push(loaded.adapter);
+  if (loaded.default) candidates.push(loaded.default);
+  if (candidates.length === 0) {
+    throw new Error(
+      `Engine module ${resolved} must export \`default\`, \`adapter\`, or \`adapters\`.`
+    );
+  }
+
+  const ids: string[] = [];
+  for (const candidate of candidates) {
+    const adapter = candidate as EngineAdapter;
+    registerEngineAdapter(adapter);
+    ids.push(adapter.id);
+  }
+  return ids;
+}
+
+export function loadEngineAdapterModules(modulePaths: string[] | undefined): void {
+  for (const modulePath of modulePaths || []) {
+    loadEngineAdapterModule(modulePath);
+  }
+}
+
+registerEngineAdapter(claudeAdapter);
+registerEngineAdapter(codexAdapter);
+registerEngineAdapter(replayAdapter);
+registerEngineAdapter(mockAdapter);
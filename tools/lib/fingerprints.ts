@@ -0,0 +1,132 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PhaseDefinition, getPipelineDefinition, phasePromptPath } from './pipeline-definition';
+
+// ---------------------------------------------------------------------------
+// Phase Fingerprints
+// ---------------------------------------------------------------------------
+
+/**
+ * What a completed phase was built from: its prompt template and the upstream
+ * artifacts it read. Hashes are sha256; null means the file did not exist.
+ */
+export interface PhaseFingerprint {
+  recorded_at: string;
+  prompt: string | null;
+  /** Upstream phase id -> hash of its artifact when this phase ran. */
+  inputs: Record<string, string | null>;
+  /** Hash of this phase's own artifact (null for phases without one). */
+  artifact: string | null;
+  /** Set when the artifact was imported rather than generated; it has no inputs and is never stale. */
+  imported?: boolean;
+}
+
+export interface FingerprintManifest {
+  version: 1;
+  phases: Record<string, PhaseFingerprint>;
+}
+
+export interface StalePhase {
+  phase: PhaseDefinition;
+  reasons: string[];
+}
+
+export const FINGERPRINT_MANIFEST_FILE = 'fingerprints.json';
+
+function hashFile(filePath: string): string | null {
+  if (!fs.existsSync(filePath)) return null;
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function promptHash(phase: PhaseDefinition): string | null {
+  return phase.promptFile ? hashFile(phasePromptPath(phase)) : null;
+}
+
+/**
+ * Upstream phases whose artifacts feed a phase: its required phases plus any
+ * phase whose placeholder appears in its prompt template.
+ */
+function inputPhases(phase: PhaseDefinition): PhaseDefinition[] {
+  const prompt = phase.promptFile && fs.existsSync(phasePromptPath(phase))
+    ? fs.readFileSync(phasePromptPath(phase), 'utf-8')
+    : '';
+  return getPipelineDefinition().phases.filter(
+    (candidate) =>
+      candidate.id !== phase.id &&
+      Boolean(candidate.artifactFile) &&
+      (phase.requiredPhases.includes(candidate.id) ||
+        (candidate.placeholder !== null && prompt.includes(`{{${candidate.placeholder}}}`)))
+  );
+}
+
+function manifestPath(artifactsDir: string): string {
+  return path.join(artifactsDir, FINGERPRINT_MANIFEST_FILE);
+}
+
+export function loadFingerprintManifest(artifactsDir: string): FingerprintManifest {
+  const filePath = manifestPath(artifactsDir);
+  if (!fs.existsSync(filePath)) return { version: 1, phases: {} };
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FingerprintManifest;
+}
+
+/** Records the prompt and input hashes of a phase that just completed. */
+export function recordPhaseFingerprint(
+  artifactsDir: string,
+  phase: PhaseDefinition,
+  opts: { imported?: boolean } = {}
+): PhaseFingerprint {
+  const manifest = loadFingerprintManifest(artifactsDir);
+  const fingerprint: PhaseFingerprint = {
+    recorded_at: new Date().toISOString(),
+    prompt: promptHash(phase),
+    inputs: opts.imported
+      ? {}
+      : Object.fromEntries(
+          inputPhases(phase).map((input) => [input.id, hashFile(path.join(artifactsDir, input.artifactFile!))])
+        ),
+    artifact: phase.artifactFile ? hashFile(path.join(artifactsDir, phase.artifactFile)) : null,
+    ...(opts.imported ? { imported: true } : {}),
+  };
+  manifest.phases[phase.id] = fingerprint;
+  fs.writeFileSync(manifestPath(artifactsDir), JSON.stringify(manifest, null, 2) + '\n');
+  return fingerprint;
+}
+
+/**
+ * Completed phases whose prompt template or upstream artifacts changed since
+ * they ran, in pipeline order. Phases downstream of a stale phase are stale
+ * too, since it will be regenerated. Phases without a recorded fingerprint
+ * (completed before fingerprints existed) and imported artifacts are not
+ * checked.
+ */
+export function findStalePhases(completedPhases: string[], artifactsDir: string): StalePhase[] {
+  const manifest = loadFingerprintManifest(artifactsDir);
+  const stale: StalePhase[] = [];
+  const staleIds = new Set<string>();
+
+  for (const phase of getPipelineDefinition().phases) {
+    const recorded = manifest.phases[phase.id];
+    if (!completedPhases.includes(phase.id) || !recorded || recorded.imported) continue;
+
+    const reasons: string[] = [];
+    if (promptHash(phase) !== recorded.prompt) {
+      reasons.push(`prompt template ${phase.promptFile} changed`);
+    }
+    for (const input of inputPhases(phase)) {
+      if (staleIds.has(input.id)) {
+        reasons.push(`depends on stale phase ${input.id}`);
+      } else if (
+        input.id in recorded.inputs &&
+        hashFile(path.join(artifactsDir, input.artifactFile!)) !== recorded.inputs[input.id]
+      ) {
+        reasons.push(`input ${input.artifactFile} (phase ${input.id}) changed`);
+      }
+    }
+    if (reasons.length > 0) {
+      stale.push({ phase, reasons });
+      staleIds.add(phase.id);
+    }
+  }
+  return stale;
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { copyArtifactHistory } from './artifact-history';
+import { FINGERPRINT_MANIFEST_FILE, loadFingerprintManifest } from './fingerprints';
+import { findPhase, findPhaseByKind, getPipelineDefinition } from './pipeline-definition';
+import { sidecarFileName } from './sidecars';
+import { RunConfig, loadConfig, saveConfig } from './validate';
+
+// ---------------------------------------------------------------------------
+// Run Forking
+// ---------------------------------------------------------------------------
+
+export interface ForkOptions {
+  runsDir: string;
+  runId: string;
+  /** Repo name for the fork's own repo/workspace. */
+  repoName: string;
+}
+
+/** Number of runs in `runsDir` already forked from `sourceRunId`. */
+export function countForks(runsDir: string, sourceRunId: string): number {
+  if (!fs.existsSync(runsDir)) return 0;
+  let count = 0;
+  for (const entry of fs.readdirSync(runsDir)) {
+    const configPath = path.join(runsDir, entry, 'config.json');
+    if (!fs.existsSync(configPath)) continue;
+    try {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as RunConfig;
+      if (config.forked_from?.run_id === sourceRunId) count++;
+    } catch {
+      // unreadable configs are not forks
+    }
+  }
+  return count;
+}
+
+/**
+ * Creates a new run from an existing one, keeping the phases before
+ * `atPhase`: their artifacts and fingerprints are copied, everything else
+ * (costs, checkpoints, repo and workspace) starts fresh. Forks past repo
+ * bootstrap get their own repo, which the pipeline bootstraps before
+ * continuing at `atPhase`. Returns the new run directory.
+ */
+export function forkRun(sourceRunDir: string, atPhase: string, options: ForkOptions): string {
+  const source = loadConfig(sourceRunDir);
+  const phases = getPipelineDefinition().phases;
+  const atIndex = phases.findIndex((phase) => phase.id === atPhase);
+  if (atIndex === -1) {
+    throw new Error(`Cannot fork at phase ${atPhase}: it is not in the run's pipeline.`);
+  }
+  const implementation = findPhaseByKind('implementation');
+  if (implementation && atIndex > phases.indexOf(implementation)) {
+    throw new Error(
+      `Cannot fork after phase ${implementation.id} (${implementation.name}): later phases depend on ` +
+      'the source run\'s workspace. Fork at or before it instead.'
+    );
+  }
+
+  const bootstrap = findPhaseByKind('repo-bootstrap');
+  const skipped = source.skipped_phases || [];
+  const kept = phases.slice(0, atIndex).filter((phase) => phase !== bootstrap && !skipped.includes(phase.id));
+  const missing = kept.filter((phase) => !source.completed_phases.includes(phase.id));
+  if (missing.length > 0) {
+    throw new Error(
+      `Cannot fork at phase ${atPhase}: the source run has not completed phase(s) ` +
+      `${missing.map((phase) => phase.id).join(', ')}.`
+    );
+  }
+
+  const runDir = path.join(options.runsDir, options.runId);
+  if (fs.existsSync(runDir)) {
+    throw new Error(`Run directory already exists: ${runDir}`);
+  }
+  const sourceArtifacts = path.join(sourceRunDir, 'artifacts');
+  const artifactsDir = path.join(runDir, 'artifacts');
+  fs.mkdirSync(artifactsDir, { recursive: true });
+  fs.mkdirSync(path.join(runDir, 'logs'), { recursive: true });
+
+  for (const phase of kept) {
+    if (!phase.artifactFile) continue;
+    fs.copyFileSync(path.join(sourceArtifacts, phase.artifactFile), path.join(artifactsDir, phase.artifactFile));
+    const sidecar = phase.sidecarSchema ? sidecarFileName(phase) : null;
+    if (sidecar && fs.existsSync(path.join(sourceArtifacts, sidecar))) {
+      fs.copyFileSync(path.join(sourceArtifacts, sidecar), path.join(artifactsDir, sidecar));
+    }
+  }
+  copyArtifactHistory(
+    sourceArtifacts,
+    artifactsDir,
+    kept.flatMap((phase) => (phase.artifactFile ? [phase.artifactFile] : []))
+  );
+  const manifest = loadFingerprintManifest(sourceArtifacts);
+  manifest.phases = Object.fromEntries(
+    Object.entries(manifest.phases).filter(([id]) => kept.some((phase) => phase.id === id))
+  );
+  fs.writeFileSync(path.join(artifactsDir, FINGERPRINT_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+
+  const config: RunConfig = {
+    run_id: options.runId,
+    idea: source.idea,
+    repo_name: options.repoName,
+    repo_owner: source.repo_owner,
+    template_repo: source.template_repo,
+    default_branch: source.default_branch,
+    visibility: source.visibility,
+    engine: source.engine,
+    engine_modules: source.engine_modules,
+    engine_routes: source.engine_routes,
+    engine_failover: source.engine_failover,
+    phase_hooks: source.phase_hooks,
+    skipped_phases: source.skipped_phases,
+    mock_fixture: source.mock_fixture,
+    pricing_file: source.pricing_file,
+    pipeline_file: source.pipeline_file,
+    claude_output_format: source.claude_output_format,
+    interactive_mode: source.interactive_mode,
+    timeout_ms: source.timeout_ms,
+    current_phase: kept.length > 0 ? kept[kept.length - 1].id : '-1',
+    completed_phases: kept.map((phase) => phase.id),
+    imported_artifacts: source.imported_artifacts?.filter((entry) => kept.some((phase) => phase.id === entry.phase)),
+    total_cost_usd: 0,
+    phase_costs: {},
+    forked_from: {
+      run_id: source.run_id,
+      run_dir: path.resolve(sourceRunDir),
+      at_phase: atPhase,
+      forked_at: new Date().toISOString(),
+      source_cost_usd: source.total_cost_usd || 0,
+    },
+  };
+  saveConfig(runDir, config);
+  fs.appendFileSync(
+    path.join(runDir, 'logs', 'pipeline.log'),
+    `[${new Date().toISOString()}] Forked from ${source.run_id} at phase ${atPhase} ` +
+      `(kept phases: ${config.completed_phases.join(', ') || 'none'}; ` +
+      `${findPhase(atPhase)?.name || atPhase} runs next)\n`
+  );
+  return runDir;
+}
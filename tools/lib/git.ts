@@ -1078,6 +1078,42 @@ export function gitCommitChanges(workspacePath: string, message: string): boolea
   }
 }
 
+export interface GitCommitSummary {
+  sha: string;
+  subject: string;
+  files: string[];
+}
+
+/**
+ * Commits whose subject starts with `subjectPrefix`, oldest first, with the
+ * files each one changed. Returns an empty list when git log fails.
+ */
+export function listGitCommits(workspacePath: string, subjectPrefix: string): GitCommitSummary[] {
+  let output: string;
+  try {
+    output = execFileSync('git', ['log', '--reverse', '--name-only', '--format=%x1e%H%x1f%s'], {
+      cwd: workspacePath,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+      maxBuffer: 50 * 1024 * 1024,
+    });
+  } catch {
+    return [];
+  }
+  const commits: GitCommitSummary[] = [];
+  for (const record of output.split('\x1e')) {
+    const [header, ...fileLines] = record.split('\n');
+    const [sha, subject] = header.split('\x1f');
+    if (!sha || subject === undefined || !subject.startsWith(subjectPrefix)) continue;
+    commits.push({
+      sha,
+      subject,
+      files: fileLines.map((line) => line.trim()).filter(Boolean),
+    });
+  }
+  return commits;
+}
+
 /**
  * Runs tests in the workspace and returns the results.
  * Tries common test commands in order of preference.
@@ -0,0 +1,171 @@
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Phase Hooks
+// ---------------------------------------------------------------------------
+
+export interface PhaseHook {
+  command: string;
+  /** Where the command runs: the run directory (default) or the generated app workspace. */
+  cwd?: 'run' | 'workspace';
+  /** What a non-zero exit does: fail the phase (default) or log a warning. */
+  on_failure?: 'fail' | 'warn';
+  timeout_minutes?: number;
+}
+
+export interface PhaseHooks {
+  pre?: PhaseHook[];
+  post?: PhaseHook[];
+}
+
+/** Phase id -> hooks run before and after that phase. */
+export type PhaseHookConfig = Record<string, PhaseHooks>;
+
+export type HookStage = 'pre' | 'post';
+
+export interface HookContext {
+  runDir: string;
+  artifactsDir: string;
+  workspacePath?: string;
+  phaseId: string;
+  phaseName: string;
+  /** Receives each hook's status line and captured output. */
+  log(message: string): void;
+}
+
+const DEFAULT_HOOK_TIMEOUT_MINUTES = 10;
+const HOOK_OUTPUT_TAIL_CHARS = 5_000;
+
+function validateHook(hook: unknown, where: string): string[] {
+  if (typeof hook !== 'object' || hook === null || Array.isArray(hook)) {
+    return [`${where} must be an object with a "command"`];
+  }
+  const value = hook as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof value.command !== 'string' || !value.command.trim()) {
+    errors.push(`${where}.command must be a non-empty string`);
+  }
+  if (value.cwd !== undefined && value.cwd !== 'run' && value.cwd !== 'workspace') {
+    errors.push(`${where}.cwd must be "run" or "workspace"`);
+  }
+  if (value.on_failure !== undefined && value.on_failure !== 'fail' && value.on_failure !== 'warn') {
+    errors.push(`${where}.on_failure must be "fail" or "warn"`);
+  }
+  if (
+    value.timeout_minutes !== undefined &&
+    (typeof value.timeout_minutes !== 'number' || !(value.timeout_minutes > 0))
+  ) {
+    errors.push(`${where}.timeout_minutes must be a positive number`);
+  }
+  return errors;
+}
+
+/** Structural problems in a hook config, as "<phase>.<stage>[i]..." messages. */
+export function validatePhaseHookConfig(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['hooks must be an object keyed by phase id'];
+  }
+  const errors: string[] = [];
+  for (const [phaseId, hooks] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof hooks !== 'object' || hooks === null || Array.isArray(hooks)) {
+      errors.push(`${phaseId} must be an object with "pre" and/or "post" arrays`);
+      continue;
+    }
+    for (const [stage, list] of Object.entries(hooks as Record<string, unknown>)) {
+      if (stage !== 'pre' && stage !== 'post') {
+        errors.push(`${phaseId}.${stage} is not a hook stage (use "pre" or "post")`);
+      } else if (!Array.isArray(list)) {
+        errors.push(`${phaseId}.${stage} must be an array`);
+      } else {
+        list.forEach((hook, index) => errors.push(...validateHook(hook, `${phaseId}.${stage}[${index}]`)));
+      }
+    }
+  }
+  return errors;
+}
+
+export function loadPhaseHookConfig(filePath: string): PhaseHookConfig {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Hooks file not found: ${resolved}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Hooks file ${resolved} is not valid JSON: ${(error as Error).message}`);
+  }
+  const errors = validatePhaseHookConfig(parsed);
+  if (errors.length > 0) {
+    throw new Error(`Invalid hooks file ${resolved}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return parsed as PhaseHookConfig;
+}
+
+function tail(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > HOOK_OUTPUT_TAIL_CHARS ? trimmed.slice(-HOOK_OUTPUT_TAIL_CHARS) : trimmed;
+}
+
+function runHookCommand(
+  hook: PhaseHook,
+  cwd: string,
+  env: NodeJS.ProcessEnv
+): Promise<{ exitCode: number | null; output: string; error?: string }> {
+  const timeout = (hook.timeout_minutes ?? DEFAULT_HOOK_TIMEOUT_MINUTES) * 60 * 1000;
+  return new Promise((resolve) => {
+    exec(`${hook.command} 2>&1`, { cwd, env, timeout, maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+      if (!error) {
+        resolve({ exitCode: 0, output: tail(stdout) });
+        return;
+      }
+      const failure = error as NodeJS.ErrnoException & { code?: number | string; killed?: boolean; signal?: string };
+      resolve({
+        exitCode: typeof failure.code === 'number' ? failure.code : null,
+        output: tail(stdout),
+        error: failure.killed ? `timed out after ${timeout / 60_000} minute(s)` : failure.signal || undefined,
+      });
+    });
+  });
+}
+
+/**
+ * Runs a phase's pre or post hooks in order. Commands get PIPELINE_* env
+ * vars describing the run and phase; their combined output goes to
+ * `ctx.log`. A failing hook with `on_failure: "fail"` throws, skipping the
+ * hooks after it; with "warn" it is logged and the next hook runs.
+ */
+export async function runPhaseHooks(stage: HookStage, hooks: PhaseHook[], ctx: HookContext): Promise<void> {
+  for (const hook of hooks) {
+    const label = `${stage} hook for phase ${ctx.phaseId}: ${hook.command}`;
+    const cwd = hook.cwd === 'workspace' ? ctx.workspacePath : ctx.runDir;
+    let failure: string | null = null;
+
+    if (!cwd || !fs.existsSync(cwd)) {
+      failure = `${label} needs the app workspace, which does not exist yet`;
+    } else {
+      const result = await runHookCommand(hook, cwd, {
+        ...process.env,
+        PIPELINE_HOOK: stage,
+        PIPELINE_PHASE_ID: ctx.phaseId,
+        PIPELINE_PHASE_NAME: ctx.phaseName,
+        PIPELINE_RUN_DIR: ctx.runDir,
+        PIPELINE_ARTIFACTS_DIR: ctx.artifactsDir,
+        PIPELINE_WORKSPACE: ctx.workspacePath || '',
+      });
+      const status = result.error || `exit ${result.exitCode ?? 'unknown'}`;
+      ctx.log(`${label} (${cwd}) -> ${status}${result.output ? `\n${result.output}` : ''}`);
+      if (result.exitCode !== 0) failure = `${label} failed (${status})`;
+    }
+
+    if (failure) {
+      if (hook.on_failure === 'warn') {
+        ctx.log(`Warning: ${failure}; continuing (on_failure: warn)`);
+      } else {
+        throw new Error(failure);
+      }
+    }
+  }
+}
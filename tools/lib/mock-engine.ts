@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentOptions, AgentResult } from './agent';
+import { normalizeScopeLabel, scopeLabelMatches } from './routing';
+
+// ---------------------------------------------------------------------------
+// Mock Engine Fixtures
+// ---------------------------------------------------------------------------
+
+export interface MockFileEdit {
+  /** Path relative to the agent's working directory. */
+  path: string;
+  content?: string;
+  append?: string;
+  delete?: boolean;
+}
+
+export interface MockResponse {
+  output?: string;
+  /** Output read from a file, relative to the fixture file. */
+  outputFile?: string;
+  edits?: MockFileEdit[];
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  turns?: number;
+  stopReason?: string;
+  /** Throws this message instead of returning a result (e.g. "429 rate limit"). */
+  error?: string;
+}
+
+/**
+ * Fixture file for the mock engine. Keys in `responses` are agent scope
+ * labels (e.g. "4", "9-task-3-quality-repair-1"); a leading "Phase " is
+ * ignored and `*` matches any characters. An array value is consumed one
+ * entry per call, repeating the last entry once exhausted.
+ */
+export interface MockFixture {
+  responses: Record<string, MockResponse | MockResponse[]>;
+  default?: MockResponse;
+}
+
+const fixtureCache = new Map<string, MockFixture>();
+const callCounters = new Map<string, number>();
+
+export function loadMockFixture(fixturePath: string): MockFixture {
+  const resolved = path.resolve(fixturePath);
+  const cached = fixtureCache.get(resolved);
+  if (cached) return cached;
+
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Mock fixture not found: ${resolved}`);
+  }
+  const fixture = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as MockFixture;
+  if (!fixture || typeof fixture.responses !== 'object' || fixture.responses === null) {
+    throw new Error(`Invalid mock fixture ${resolved}: expected a "responses" object.`);
+  }
+  fixtureCache.set(resolved, fixture);
+  return fixture;
+}
+
+function resolveMockResponse(fixture: MockFixture, label: string): { key: string; response: MockResponse } {
+  const normalized = normalizeScopeLabel(label);
+  const keys = Object.keys(fixture.responses);
+  const key =
+    keys.find((candidate) => normalizeScopeLabel(candidate) === normalized) ||
+    keys.find((candidate) => candidate.includes('*') && scopeLabelMatches(candidate, label));
+
+  if (!key) {
+    if (fixture.default) return { key: 'default', response: fixture.default };
+    throw new Error(`Mock fixture has no response for "${label}" and no default.`);
+  }
+
+  const entry = fixture.responses[key];
+  if (!Array.isArray(entry)) return { key, response: entry };
+  if (entry.length === 0) {
+    throw new Error(`Mock fixture response list for "${key}" is empty.`);
+  }
+
+  const call = callCounters.get(key) || 0;
+  callCounters.set(key, call + 1);
+  return { key, response: entry[Math.min(call, entry.length - 1)] };
+}
+
+function applyMockEdits(cwd: string, edits: MockFileEdit[]): void {
+  const root = path.resolve(cwd);
+  for (const edit of edits) {
+    const target = path.resolve(root, edit.path);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Mock edit escapes the working directory: ${edit.path}`);
+    }
+    if (edit.delete) {
+      fs.rmSync(target, { recursive: true, force: true });
+      continue;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (edit.content !== undefined) {
+      fs.writeFileSync(target, edit.content);
+    }
+    if (edit.append !== undefined) {
+      fs.appendFileSync(target, edit.append);
+    }
+  }
+}
+
+/**
+ * Serves a canned response for the invocation's label, applying any file
+ * edits in the working directory first.
+ */
+export function runMockAgent(fixturePath: string, options: AgentOptions): AgentResult {
+  const fixture = loadMockFixture(fixturePath);
+  const label = options.label || '';
+  const { key, response } = resolveMockResponse(fixture, label);
+  console.log(`  [agent] Engine: mock | Scope: ${label || 'n/a'} | Fixture entry: ${key}`);
+
+  if (response.edits && response.edits.length > 0) {
+    applyMockEdits(options.cwd || process.cwd(), response.edits);
+    console.log(`  [agent] Applied ${response.edits.length} mock file edit(s)`);
+  }
+
+  if (response.error) {
+    throw new Error(response.error);
+  }
+
+  let output = response.output || '';
+  if (response.outputFile) {
+    output = fs.readFileSync(path.resolve(path.dirname(path.resolve(fixturePath)), response.outputFile), 'utf-8');
+  }
+
+  return {
+    output: output.trim(),
+    costUsd: response.costUsd || 0,
+    inputTokens: response.inputTokens || 0,
+    outputTokens: response.outputTokens || 0,
+    cacheReadTokens: response.cacheReadTokens || 0,
+    cacheWriteTokens: response.cacheWriteTokens || 0,
+    turns: response.turns || 1,
+    elapsed: '0s',
+    stopReason: response.stopReason || '',
+    resultSubtype: '',
+    outputSource: 'result',
+    engine: 'mock',
+  };
+}
@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SectionRules, validateSectionRules } from './section-rules';
+
+// ---------------------------------------------------------------------------
+// Pipeline Definition
+// ---------------------------------------------------------------------------
+
+/**
+ * How a phase runs. `artifact` phases are fully described by the definition
+ * (prompt in, Markdown artifact out). `plugin` phases come from phase plugins
+ * (see plugins.ts) and are never listed in the file. The other kinds run
+ * built-in handlers whose checkpoints and scope labels are tied to their
+ * stock phase ids.
+ */
+export type PhaseKind = 'artifact' | 'repo-bootstrap' | 'implementation' | 'test-verification' | 'plugin';
+
+export interface PhaseDefinition {
+  id: string;
+  name: string;
+  kind: PhaseKind;
+  /** Prompt template, relative to the definition's prompts directory. */
+  promptFile: string | null;
+  /** Output file name under the run's artifacts directory. */
+  artifactFile: string | null;
+  /** Prompt placeholder that later phases use to embed this artifact (e.g. "ARTIFACT_03"). */
+  placeholder: string | null;
+  needsRepo: boolean;
+  requiredPhases: string[];
+  /** Section headings the artifact must contain. */
+  requiredSections: string[];
+  /** Per-section checks (heading level, minimum content, required table); see section-rules.ts. */
+  sectionRules: SectionRules;
+  /** Placeholder text the artifact must not contain (the definition's `forbiddenText` unless set). */
+  forbiddenText: string[];
+  /** Ask for approval before the phase runs in interactive mode. */
+  approvalGate: boolean;
+  webSearch: boolean;
+  /** Generate several candidates and keep the judge's pick when the run sets --variants. */
+  variants: boolean;
+  /** JSON Schema (relative to the schemas directory) for the artifact's structured JSON sidecar. */
+  sidecarSchema: string | null;
+  maxTurns: number;
+  repairMaxTurns: number;
+  backfillMaxTurns: number;
+}
+
+export interface PipelineDefinition {
+  version: number;
+  name: string;
+  /** Absolute path of the definition file. */
+  file: string;
+  /** Absolute prompts directory (`promptsDir` resolved against the definition file). */
+  promptsDir: string;
+  /** Absolute schemas directory (`schemasDir` resolved against the definition file). */
+  schemasDir: string;
+  phases: PhaseDefinition[];
+}
+
+const PIPELINE_DEFINITION_VERSION = 1;
+export const DEFAULT_PIPELINE_FILE = path.resolve(__dirname, '..', '..', 'pipeline.json');
+
+// Kinds a definition file may use; `plugin` phases are registered in code.
+const PHASE_KINDS: PhaseKind[] = ['artifact', 'repo-bootstrap', 'implementation', 'test-verification'];
+// Built-in handlers write checkpoints and agent labels under these ids.
+const BUILTIN_PHASE_IDS: Partial<Record<PhaseKind, string>> = {
+  'repo-bootstrap': '5',
+  implementation: '9',
+  'test-verification': '10',
+};
+const PHASE_ID_PATTERN = /^\d+$/;
+const ARTIFACT_FILE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.md$/;
+const PLACEHOLDER_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const PLUGIN_PHASE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+let activeDefinition: PipelineDefinition | null = null;
+// Plugin phases, in registration order, with the phase id each one runs after.
+const pluginPhases: Array<{ phase: PhaseDefinition; after: string | null }> = [];
+
+function readTurnLimit(
+  raw: Record<string, unknown>,
+  key: string,
+  fallback: number,
+  where: string,
+  errors: string[]
+): number {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    errors.push(`${where}.${key} must be a positive integer`);
+    return fallback;
+  }
+  return value;
+}
+
+function readStringList(raw: Record<string, unknown>, key: string, where: string, errors: string[]): string[] {
+  const value = raw[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+    errors.push(`${where}.${key} must be an array of non-empty strings`);
+    return [];
+  }
+  return value as string[];
+}
+
+/**
+ * Parses and validates a pipeline definition. All problems are reported
+ * together, in the same style as validateConfig.
+ */
+export function parsePipelineDefinition(raw: unknown, file: string): PipelineDefinition {
+  const errors: string[] = [];
+  const doc = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  if (doc.version !== PIPELINE_DEFINITION_VERSION) {
+    errors.push(`version must be ${PIPELINE_DEFINITION_VERSION}`);
+  }
+  const promptsDir = path.resolve(
+    path.dirname(file),
+    typeof doc.promptsDir === 'string' && doc.promptsDir ? doc.promptsDir : 'prompts'
+  );
+  if (!fs.existsSync(promptsDir)) {
+    errors.push(`promptsDir not found: ${promptsDir}`);
+  }
+  const schemasDir = path.resolve(
+    path.dirname(file),
+    typeof doc.schemasDir === 'string' && doc.schemasDir ? doc.schemasDir : 'schemas'
+  );
+  const defaultForbiddenText = readStringList(doc, 'forbiddenText', 'definition', errors);
+  if (!Array.isArray(doc.phases) || doc.phases.length === 0) {
+    errors.push('phases must be a non-empty array');
+  }
+
+  const phases: PhaseDefinition[] = [];
+  const seenIds = new Set<string>();
+  const seenArtifacts = new Set<string>();
+  const seenPlaceholders = new Set<string>();
+  const seenKinds = new Set<PhaseKind>();
+
+  for (const [index, entry] of (Array.isArray(doc.phases) ? doc.phases : []).entries()) {
+    const rawPhase = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const id = typeof rawPhase.id === 'string' ? rawPhase.id : '';
+    const where = `phases[${index}]${id ? ` (phase ${id})` : ''}`;
+
+    if (!PHASE_ID_PATTERN.test(id)) {
+      errors.push(`${where}.id must be a string of digits`);
+    } else if (seenIds.has(id)) {
+      errors.push(`${where}.id duplicates an earlier phase`);
+    }
+
+    const name = typeof rawPhase.name === 'string' ? rawPhase.name.trim() : '';
+    if (!name) errors.push(`${where}.name is required`);
+
+    const kind = (rawPhase.kind === undefined ? 'artifact' : rawPhase.kind) as PhaseKind;
+    if (!PHASE_KINDS.includes(kind)) {
+      errors.push(`${where}.kind must be one of: ${PHASE_KINDS.join(', ')}`);
+    } else if (kind !== 'artifact') {
+      if (seenKinds.has(kind)) errors.push(`${where}: only one ${kind} phase is allowed`);
+      if (BUILTIN_PHASE_IDS[kind] !== id) {
+        errors.push(`${where}: the ${kind} phase must use id "${BUILTIN_PHASE_IDS[kind]}"`);
+      }
+      seenKinds.add(kind);
+    }
+
+    const promptFile = typeof rawPhase.promptFile === 'string' ? rawPhase.promptFile : null;
+    if ((kind === 'artifact' || kind === 'implementation') && !promptFile) {
+      errors.push(`${where}.promptFile is required for ${kind} phases`);
+    }
+    if (promptFile) {
+      const promptPath = path.resolve(promptsDir, promptFile);
+      if (!promptPath.startsWith(promptsDir + path.sep)) {
+        errors.push(`${where}.promptFile must stay inside the prompts directory`);
+      } else if (!fs.existsSync(promptPath)) {
+        errors.push(`${where}.promptFile not found: ${promptPath}`);
+      }
+    }
+
+    const artifactFile = typeof rawPhase.artifactFile === 'string' ? rawPhase.artifactFile : null;
+    if (kind === 'artifact' && !artifactFile) {
+      errors.push(`${where}.artifactFile is required for artifact phases`);
+    }
+    if (rawPhase.variants === true && kind !== 'artifact') {
+      errors.push(`${where}.variants is only supported on artifact phases`);
+    }
+    if (artifactFile) {
+      if (!ARTIFACT_FILE_PATTERN.test(artifactFile)) {
+        errors.push(`${where}.artifactFile must be a plain .md file name`);
+      } else if (seenArtifacts.has(artifactFile)) {
+        errors.push(`${where}.artifactFile duplicates an earlier phase`);
+      }
+      seenArtifacts.add(artifactFile);
+    }
+
+    const sidecarSchema = typeof rawPhase.sidecarSchema === 'string' ? rawPhase.sidecarSchema : null;
+    if (sidecarSchema) {
+      const schemaPath = path.resolve(schemasDir, sidecarSchema);
+      if (kind !== 'artifact') {
+        errors.push(`${where}.sidecarSchema is only supported on artifact phases`);
+      } else if (!schemaPath.startsWith(schemasDir + path.sep)) {
+        errors.push(`${where}.sidecarSchema must stay inside the schemas directory`);
+      } else if (!fs.existsSync(schemaPath)) {
+        errors.push(`${where}.sidecarSchema not found: ${schemaPath}`);
+      }
+    }
+
+    const placeholder = typeof rawPhase.placeholder === 'string' ? rawPhase.placeholder : null;
+    if (placeholder) {
+      if (!PLACEHOLDER_PATTERN.test(placeholder)) {
+        errors.push(`${where}.placeholder must be UPPER_SNAKE_CASE`);
+      } else if (seenPlaceholders.has(placeholder)) {
+        errors.push(`${where}.placeholder duplicates an earlier phase`);
+      }
+      if (!artifactFile) errors.push(`${where}.placeholder needs an artifactFile`);
+      seenPlaceholders.add(placeholder);
+    }
+
+    const requiredPhases = readStringList(rawPhase, 'requiredPhases', where, errors);
+    for (const required of requiredPhases) {
+      if (!seenIds.has(required)) {
+        errors.push(`${where}.requiredPhases references "${required}", which is not an earlier phase`);
+      }
+    }
+
+    const requiredSections = readStringList(rawPhase, 'requiredSections', where, errors);
+    let sectionRules: SectionRules = {};
+    if (rawPhase.sectionRules !== undefined) {
+      const ruleErrors = validateSectionRules(rawPhase.sectionRules, requiredSections, `${where}.sectionRules`);
+      if (kind !== 'artifact') ruleErrors.unshift(`${where}.sectionRules is only supported on artifact phases`);
+      errors.push(...ruleErrors);
+      if (ruleErrors.length === 0) sectionRules = rawPhase.sectionRules as SectionRules;
+    }
+
+    const needsRepo = rawPhase.needsRepo === true;
+    phases.push({
+      id,
+      name,
+      kind,
+      promptFile,
+      artifactFile,
+      placeholder,
+      needsRepo,
+      requiredPhases,
+      requiredSections,
+      sectionRules,
+      forbiddenText:
+        rawPhase.forbiddenText === undefined
+          ? defaultForbiddenText
+          : readStringList(rawPhase, 'forbiddenText', where, errors),
+      approvalGate: rawPhase.approvalGate === true,
+      webSearch: rawPhase.webSearch === true,
+      variants: rawPhase.variants === true,
+      sidecarSchema,
+      maxTurns: readTurnLimit(rawPhase, 'maxTurns', needsRepo ? 15 : 12, where, errors),
+      repairMaxTurns: readTurnLimit(rawPhase, 'repairMaxTurns', needsRepo ? 10 : 8, where, errors),
+      backfillMaxTurns: readTurnLimit(rawPhase, 'backfillMaxTurns', needsRepo ? 8 : 6, where, errors),
+    });
+    if (id) seenIds.add(id);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline definition ${file}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return {
+    version: PIPELINE_DEFINITION_VERSION,
+    name: typeof doc.name === 'string' && doc.name ? doc.name : path.basename(file, '.json'),
+    file,
+    promptsDir,
+    schemasDir,
+    phases,
+  };
+}
+
+/**
+ * Inserts registered plugin phases into a parsed definition. Each plugin runs
+ * right after its `after` phase (plugins sharing one run in registration
+ * order), or at the end of the pipeline when it names none.
+ */
+function withPluginPhases(definition: PipelineDefinition): PipelineDefinition {
+  const phases = [...definition.phases];
+  const errors: string[] = [];
+  for (const { phase, after } of pluginPhases) {
+    if (phases.some((existing) => existing.id === phase.id)) {
+      errors.push(`plugin phase "${phase.id}" duplicates a phase id in the pipeline`);
+      continue;
+    }
+    if (after === null) {
+      phases.push(phase);
+      continue;
+    }
+    let index = phases.findIndex((existing) => existing.id === after);
+    if (index === -1) {
+      errors.push(`plugin phase "${phase.id}" runs after phase "${after}", which is not in the pipeline`);
+      continue;
+    }
+    while (index + 1 < phases.length && phases[index + 1].kind === 'plugin') index++;
+    phases.splice(index + 1, 0, phase);
+  }
+  for (const [index, phase] of phases.entries()) {
+    if (phase.kind !== 'plugin') continue;
+    const earlier = new Set(phases.slice(0, index).map((p) => p.id));
+    for (const required of phase.requiredPhases.filter((id) => !earlier.has(id))) {
+      errors.push(`plugin phase "${phase.id}" requires phase "${required}", which does not run before it`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline definition ${definition.file}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return { ...definition, phases };
+}
+
+/**
+ * Adds a plugin phase to the pipeline. Registering after a definition is
+ * active re-inserts the plugin phases into it.
+ */
+export function registerPluginPhase(phase: PhaseDefinition, after: string | null): void {
+  if (!PLUGIN_PHASE_ID_PATTERN.test(phase.id)) {
+    throw new Error(`Invalid plugin phase id "${phase.id}": use letters, digits, "-" or "_".`);
+  }
+  if (pluginPhases.some((entry) => entry.phase.id === phase.id)) {
+    throw new Error(`Plugin phase "${phase.id}" is already registered.`);
+  }
+  if (phase.artifactFile && !ARTIFACT_FILE_PATTERN.test(phase.artifactFile)) {
+    throw new Error(`Plugin phase "${phase.id}": artifactFile must be a plain .md file name.`);
+  }
+  if (phase.placeholder && !PLACEHOLDER_PATTERN.test(phase.placeholder)) {
+    throw new Error(`Plugin phase "${phase.id}": placeholder must be UPPER_SNAKE_CASE.`);
+  }
+  if (phase.placeholder && !phase.artifactFile) {
+    throw new Error(`Plugin phase "${phase.id}": placeholder needs an artifactFile.`);
+  }
+  pluginPhases.push({ phase: { ...phase, kind: 'plugin' }, after });
+  if (activeDefinition) {
+    activeDefinition = withPluginPhases(loadPipelineDefinition(activeDefinition.file));
+  }
+}
+
+export function loadPipelineDefinition(filePath: string): PipelineDefinition {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Pipeline definition not found: ${resolved}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Pipeline definition ${resolved} is not valid JSON: ${(error as Error).message}`);
+  }
+  return parsePipelineDefinition(raw, resolved);
+}
+
+/** Makes a definition file the active pipeline (the default `pipeline.json` when unset). */
+export function usePipelineDefinition(filePath: string | undefined): PipelineDefinition {
+  activeDefinition = withPluginPhases(loadPipelineDefinition(filePath || DEFAULT_PIPELINE_FILE));
+  return activeDefinition;
+}
+
+export function getPipelineDefinition(): PipelineDefinition {
+  return activeDefinition || usePipelineDefinition(undefined);
+}
+
+export function findPhase(id: string): PhaseDefinition | undefined {
+  return getPipelineDefinition().phases.find((phase) => phase.id === id);
+}
+
+export function findPhaseByKind(kind: PhaseKind): PhaseDefinition | undefined {
+  return getPipelineDefinition().phases.find((phase) => phase.kind === kind);
+}
+
+export function phaseSidecarSchemaPath(phase: PhaseDefinition): string {
+  if (!phase.sidecarSchema) {
+    throw new Error(`Phase ${phase.id} (${phase.name}) has no sidecar schema.`);
+  }
+  return path.join(getPipelineDefinition().schemasDir, phase.sidecarSchema);
+}
+
+export function phasePromptPath(phase: PhaseDefinition): string {
+  if (!phase.promptFile) {
+    throw new Error(`Phase ${phase.id} (${phase.name}) has no prompt file.`);
+  }
+  return path.join(getPipelineDefinition().promptsDir, phase.promptFile);
+}
+
+// ---------------------------------------------------------------------------
+// Skipped Phases
+// ---------------------------------------------------------------------------
+
+/** Stands in for a skipped phase's artifact in prompts and prerequisite checks. */
+export const SKIPPED_PHASE_CONTENT = '(skipped by configuration)';
+
+let skippedPhaseIds = new Set<string>();
+
+/** Why a phase cannot be skipped, or null when it can. */
+function skipBlocker(phase: PhaseDefinition): string | null {
+  if (phase.kind === 'repo-bootstrap' || phase.kind === 'implementation' || phase.kind === 'test-verification') {
+    return `${phase.kind} phases produce the workspace later phases build on`;
+  }
+  const implementation = findPhaseByKind('implementation');
+  if (implementation?.requiredPhases.includes(phase.id)) {
+    return `phase ${implementation.id} (${implementation.name}) reads its artifact directly`;
+  }
+  return null;
+}
+
+/**
+ * Marks phases of the active pipeline as skipped: they never run, satisfy
+ * other phases' `requiredPhases`, and their placeholders render as
+ * SKIPPED_PHASE_CONTENT. Replaces any earlier selection.
+ */
+export function setSkippedPhases(ids: string[]): void {
+  const errors: string[] = [];
+  for (const id of ids) {
+    const phase = findPhase(id);
+    if (!phase) {
+      errors.push(`phase ${id} is not in the pipeline`);
+      continue;
+    }
+    const blocker = skipBlocker(phase);
+    if (blocker) errors.push(`phase ${id} (${phase.name}) cannot be skipped: ${blocker}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid --skip-phases:\n  - ${errors.join('\n  - ')}`);
+  }
+  skippedPhaseIds = new Set(ids);
+}
+
+export function isPhaseSkipped(id: string): boolean {
+  return skippedPhaseIds.has(id);
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentResult } from './agent';
+import { PhaseDefinition, registerPluginPhase } from './pipeline-definition';
+import { RunConfig } from './validate';
+
+// ---------------------------------------------------------------------------
+// Phase Plugins
+// ---------------------------------------------------------------------------
+
+export interface PluginAgentOptions {
+  /** Appended to the phase id for the call's scope label (e.g. "threat-model-review"). */
+  label?: string;
+  maxTurns?: number;
+  permissions?: 'read-only' | 'read-write';
+  webSearch?: boolean;
+  /** Run in the generated app workspace instead of the pipeline repo. */
+  inWorkspace?: boolean;
+}
+
+/** What a plugin's `run` receives. Agent calls are retried, routed and costed like built-in phases. */
+export interface PhasePluginContext {
+  phase: PhaseDefinition;
+  config: RunConfig;
+  artifactsDir: string;
+  runDir: string;
+  runAgent(prompt: string, options?: PluginAgentOptions): Promise<AgentResult>;
+  /** Throws when the run's --budget is spent. */
+  checkBudget(): void;
+  /** Content of an earlier phase's artifact, or null when it has none yet (skipped phases read as a notice). */
+  readArtifact(phaseId: string): string | null;
+  /** Parsed JSON sidecar of an earlier phase, or null when it has none. */
+  readSidecar(phaseId: string): unknown | null;
+  /** Writes the plugin's own artifact (requires `artifactFile`) and returns its path. */
+  writeArtifact(content: string): string;
+  log(message: string): void;
+}
+
+export interface PhasePlugin {
+  id: string;
+  name: string;
+  /** Phases that must be complete first; their artifacts must exist. */
+  requiredPhases?: string[];
+  /** Phase id this plugin runs after (default: end of the pipeline). */
+  after?: string;
+  artifactFile?: string;
+  /** Placeholder later prompts can use to embed `artifactFile`. */
+  placeholder?: string;
+  approvalGate?: boolean;
+  /** Default maxTurns for runAgent (default 12). */
+  maxTurns?: number;
+  run(ctx: PhasePluginContext): Promise<void> | void;
+}
+
+export const DEFAULT_PLUGIN_DIR = path.resolve(__dirname, '..', '..', 'pipeline-plugins');
+const PLUGIN_FILE_PATTERN = /^[^.].*\.(ts|js)$/;
+
+const plugins = new Map<string, PhasePlugin>();
+
+export function registerPhasePlugin(plugin: PhasePlugin): void {
+  if (!plugin || typeof plugin.id !== 'string' || !plugin.id) {
+    throw new Error('Phase plugin must have a string `id`.');
+  }
+  if (typeof plugin.name !== 'string' || !plugin.name.trim()) {
+    throw new Error(`Phase plugin "${plugin.id}" must have a \`name\`.`);
+  }
+  if (typeof plugin.run !== 'function') {
+    throw new Error(`Phase plugin "${plugin.id}" must export a \`run(ctx)\` function.`);
+  }
+  registerPluginPhase(
+    {
+      id: plugin.id,
+      name: plugin.name.trim(),
+      kind: 'plugin',
+      promptFile: null,
+      artifactFile: plugin.artifactFile || null,
+      placeholder: plugin.placeholder || null,
+      needsRepo: false,
+      requiredPhases: plugin.requiredPhases || [],
+      requiredSections: [],
+      sectionRules: {},
+      forbiddenText: [],
+      approvalGate: plugin.approvalGate === true,
+      webSearch: false,
+      variants: false,
+      sidecarSchema: null,
+      maxTurns: plugin.maxTurns || 12,
+      repairMaxTurns: 8,
+      backfillMaxTurns: 6,
+    },
+    plugin.after ?? null
+  );
+  plugins.set(plugin.id, plugin);
+}
+
+export function getPhasePlugin(id: string): PhasePlugin {
+  const plugin = plugins.get(id);
+  if (!plugin) {
+    throw new Error(`No phase plugin registered for phase "${id}".`);
+  }
+  return plugin;
+}
+
+/** Loads a module exporting a plugin as `default`, `plugin`, or a `plugins` array. */
+export function loadPhasePluginModule(modulePath: string): string[] {
+  const resolved = path.resolve(modulePath);
+  const loaded = require(resolved) as Record<string, unknown>;
+  const candidates: unknown[] = [];
+  if (Array.isArray(loaded.plugins)) candidates.push(...loaded.plugins);
+  if (loaded.plugin) candidates.push(loaded.plugin);
+  if (loaded.default) candidates.push(loaded.default);
+  if (candidates.length === 0) {
+    throw new Error(`Phase plugin module ${resolved} must export \`default\`, \`plugin\`, or \`plugins\`.`);
+  }
+
+  const ids: string[] = [];
+  for (const candidate of candidates) {
+    const plugin = candidate as PhasePlugin;
+    registerPhasePlugin(plugin);
+    ids.push(plugin.id);
+  }
+  return ids;
+}
+
+/**
+ * Registers every plugin module in a directory, in file name order. A missing
+ * directory means no plugins.
+ */
+export function loadPhasePlugins(dir: string = DEFAULT_PLUGIN_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => PLUGIN_FILE_PATTERN.test(file) && !file.endsWith('.d.ts'))
+    .sort();
+  return files.flatMap((file) => loadPhasePluginModule(path.join(dir, file)));
+}
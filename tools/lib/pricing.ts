@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Rate Card
+// ---------------------------------------------------------------------------
+
+/** USD per million tokens. Cache prices default to the input price when omitted. */
+export interface ModelRates {
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+export interface EngineRates {
+  /** Rates used when the model is unset or not listed. */
+  default?: ModelRates;
+  models?: Record<string, ModelRates>;
+}
+
+/**
+ * Versioned rate card (`pricing.json`). Bump `version` and `effective_date`
+ * whenever prices change so run reports show which prices they used.
+ */
+export interface RateCard {
+  version: number;
+  effective_date: string;
+  unit: 'usd_per_1m_tokens';
+  engines: Record<string, EngineRates>;
+}
+
+export interface TokenUsage {
+  engine?: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+export const DEFAULT_RATE_CARD_FILE = path.resolve(__dirname, '..', '..', 'pricing.json');
+
+let rateCardFile = DEFAULT_RATE_CARD_FILE;
+let rateCardCache: RateCard | null = null;
+
+function validateRates(rates: unknown, where: string): void {
+  if (!rates || typeof rates !== 'object') {
+    throw new Error(`Invalid rate card: ${where} must be an object.`);
+  }
+  for (const [key, value] of Object.entries(rates as Record<string, unknown>)) {
+    if (!['input', 'output', 'cache_read', 'cache_write'].includes(key)) {
+      throw new Error(`Invalid rate card: unknown price "${key}" in ${where}.`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid rate card: ${where}.${key} must be a non-negative number.`);
+    }
+  }
+  const { input, output } = rates as Partial<ModelRates>;
+  if (input === undefined || output === undefined) {
+    throw new Error(`Invalid rate card: ${where} must set input and output prices.`);
+  }
+}
+
+export function parseRateCard(raw: unknown, source: string): RateCard {
+  const card = raw as RateCard;
+  if (!card || typeof card !== 'object' || typeof card.engines !== 'object' || card.engines === null) {
+    throw new Error(`Invalid rate card ${source}: expected an "engines" object.`);
+  }
+  if (!Number.isInteger(card.version) || card.version < 1) {
+    throw new Error(`Invalid rate card ${source}: "version" must be a positive integer.`);
+  }
+  if (card.unit !== 'usd_per_1m_tokens') {
+    throw new Error(`Invalid rate card ${source}: "unit" must be "usd_per_1m_tokens".`);
+  }
+  for (const [engine, rates] of Object.entries(card.engines)) {
+    if (rates.default) validateRates(rates.default, `engines.${engine}.default`);
+    for (const [model, modelRates] of Object.entries(rates.models || {})) {
+      validateRates(modelRates, `engines.${engine}.models.${model}`);
+    }
+  }
+  return card;
+}
+
+/** Points estimates at another rate card file; it is loaded on next use. */
+export function setRateCardFile(filePath: string): void {
+  rateCardFile = path.resolve(filePath);
+  rateCardCache = null;
+}
+
+export function loadRateCard(): RateCard {
+  if (rateCardCache) return rateCardCache;
+  if (!fs.existsSync(rateCardFile)) {
+    throw new Error(`Rate card not found: ${rateCardFile}`);
+  }
+  rateCardCache = parseRateCard(JSON.parse(fs.readFileSync(rateCardFile, 'utf-8')), rateCardFile);
+  return rateCardCache;
+}
+
+/**
+ * Finds the rates for an engine and model. Models match exactly, then by the
+ * longest listed name contained in the model ("claude-opus-4-1-20250805" uses
+ * "opus-4-1"), then fall back to the engine default. Returns null when the
+ * engine has no rates.
+ */
+export function lookupRates(card: RateCard, engine: string, model?: string): ModelRates | null {
+  const engineRates = card.engines[engine];
+  if (!engineRates) return null;
+  const models = engineRates.models || {};
+  if (model) {
+    const normalized = model.toLowerCase();
+    if (models[model]) return models[model];
+    const contained = Object.keys(models)
+      .filter((name) => normalized.includes(name.toLowerCase()))
+      .sort((a, b) => b.length - a.length);
+    if (contained.length > 0) return models[contained[0]];
+  }
+  return engineRates.default || null;
+}
+
+function usdFor(tokens: number | undefined, ratePer1M: number): number {
+  return ((tokens || 0) / 1_000_000) * ratePer1M;
+}
+
+/** Estimated USD cost of a call from the rate card; 0 when the engine has no rates. */
+export function estimateCostFromRateCard(usage: TokenUsage): number {
+  if (!usage.engine) return 0;
+  const rates = lookupRates(loadRateCard(), usage.engine, usage.model);
+  if (!rates) return 0;
+  return (
+    usdFor(usage.inputTokens, rates.input) +
+    usdFor(usage.outputTokens, rates.output) +
+    usdFor(usage.cacheReadTokens, rates.cache_read ?? rates.input) +
+    usdFor(usage.cacheWriteTokens, rates.cache_write ?? rates.input)
+  );
+}
+
+/**
+ * What prompt caching saved versus sending the cached tokens as plain input:
+ * the read discount minus the cache-write premium. Can be negative when
+ * written caches were not reused.
+ */
+export function estimateCacheSavings(usage: TokenUsage): number {
+  if (!usage.engine || (!usage.cacheReadTokens && !usage.cacheWriteTokens)) return 0;
+  const rates = lookupRates(loadRateCard(), usage.engine, usage.model);
+  if (!rates) return 0;
+  return (
+    usdFor(usage.cacheReadTokens, rates.input - (rates.cache_read ?? rates.input)) -
+    usdFor(usage.cacheWriteTokens, (rates.cache_write ?? rates.input) - rates.input)
+  );
+}
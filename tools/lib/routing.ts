@@ -0,0 +1,130 @@
+import type { Engine } from './engines';
+
+// ---------------------------------------------------------------------------
+// Scope Labels
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalizes an agent scope label ("Phase 9-task-3", "9-task-3") for matching:
+ * a leading "Phase " is ignored and comparison is case-insensitive.
+ */
+export function normalizeScopeLabel(label: string): string {
+  return label.trim().replace(/^phase\s+/i, '').toLowerCase();
+}
+
+/** Matches a scope label against a pattern where `*` matches any characters. */
+export function scopeLabelMatches(pattern: string, label: string): boolean {
+  const escaped = normalizeScopeLabel(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(normalizeScopeLabel(label));
+}
+
+/** Returns the phase id a scope label belongs to ("9-task-3-quality-repair-1" -> "9"). */
+export function phaseIdFromScopeLabel(label: string): string | null {
+  const match = normalizeScopeLabel(label).match(/^(\d+)(?:$|[^\d])/);
+  return match ? match[1] : null;
+}
+
+// ---------------------------------------------------------------------------
+// Engine Routing
+// ---------------------------------------------------------------------------
+
+/**
+ * Routes agent calls to an engine (and optional model).
+ * `selector` is a phase id ("9"), a phase range ("0-4"), or a scope label
+ * pattern ("10-*-repair-*").
+ */
+export interface EngineRoute {
+  selector: string;
+  engine: Engine;
+  model?: string;
+}
+
+export interface ResolvedEngine {
+  engine: Engine;
+  model?: string;
+  /** Selector of the matching route, when one matched. */
+  selector?: string;
+}
+
+const PHASE_SELECTOR_PATTERN = /^\d+$/;
+const PHASE_RANGE_PATTERN = /^(\d+)-(\d+)$/;
+const SAFE_MODEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:/@-]{0,99}$/;
+
+function isPhaseSelector(selector: string): boolean {
+  return PHASE_SELECTOR_PATTERN.test(selector) || PHASE_RANGE_PATTERN.test(selector);
+}
+
+function phaseSelectorMatches(selector: string, phaseId: string): boolean {
+  if (PHASE_SELECTOR_PATTERN.test(selector)) return selector === phaseId;
+  const range = selector.match(PHASE_RANGE_PATTERN);
+  if (!range) return false;
+  const id = Number(phaseId);
+  return id >= Number(range[1]) && id <= Number(range[2]);
+}
+
+/**
+ * Parses a routing spec such as "0-4=codex,9=claude:opus,10-*-repair-*=claude".
+ * Each entry is `<selector>=<engine>[:<model>]`.
+ */
+export function parseEngineRoutes(spec: string): EngineRoute[] {
+  const routes: EngineRoute[] = [];
+  for (const rawEntry of spec.split(',')) {
+    const entry = rawEntry.trim();
+    if (!entry) continue;
+
+    const eq = entry.indexOf('=');
+    const selector = eq > 0 ? entry.slice(0, eq).trim() : '';
+    const target = eq > 0 ? entry.slice(eq + 1).trim() : '';
+    if (!selector || !target) {
+      throw new Error(`Invalid engine route: "${entry}". Expected <phase|range|scope>=<engine>[:<model>].`);
+    }
+
+    const range = selector.match(PHASE_RANGE_PATTERN);
+    if (range && Number(range[1]) > Number(range[2])) {
+      throw new Error(`Invalid engine route: "${entry}". Phase range start is after its end.`);
+    }
+
+    const colon = target.indexOf(':');
+    const engine = colon >= 0 ? target.slice(0, colon) : target;
+    const model = colon >= 0 ? target.slice(colon + 1) : undefined;
+    if (model !== undefined && !SAFE_MODEL_PATTERN.test(model)) {
+      throw new Error(`Invalid model in engine route "${entry}". Must match pattern: ${SAFE_MODEL_PATTERN}`);
+    }
+
+    routes.push({ selector, engine, ...(model ? { model } : {}) });
+  }
+  return routes;
+}
+
+export function formatEngineRoute(route: EngineRoute): string {
+  return `${route.selector}=${route.engine}${route.model ? `:${route.model}` : ''}`;
+}
+
+/**
+ * Picks the engine for a scope label. Scope-pattern routes take precedence over
+ * phase and range routes; within each kind, the last matching route wins.
+ */
+export function resolveEngineRoute(
+  routes: EngineRoute[] | undefined,
+  label: string,
+  defaultEngine: Engine
+): ResolvedEngine {
+  const phaseId = phaseIdFromScopeLabel(label);
+  let phaseMatch: EngineRoute | undefined;
+  let scopeMatch: EngineRoute | undefined;
+
+  for (const route of routes || []) {
+    if (isPhaseSelector(route.selector)) {
+      if (phaseId !== null && phaseSelectorMatches(route.selector, phaseId)) phaseMatch = route;
+    } else if (scopeLabelMatches(route.selector, label)) {
+      scopeMatch = route;
+    }
+  }
+
+  const match = scopeMatch || phaseMatch;
+  if (!match) return { engine: defaultEngine };
+  return { engine: match.engine, model: match.model, selector: match.selector };
+}
@@ -0,0 +1,102 @@
+// ---------------------------------------------------------------------------
+// Phase Scheduler
+// ---------------------------------------------------------------------------
+
+export interface SchedulablePhase {
+  id: string;
+  requiredPhases: string[];
+}
+
+export interface PhaseGraphOptions<T extends SchedulablePhase> {
+  /** Maximum phases running at once (1 runs them strictly in order). */
+  concurrency: number;
+  /**
+   * Exclusive phases run alone: every earlier phase must have finished, and
+   * no later phase starts until they do.
+   */
+  isExclusive(phase: T): boolean;
+  /** Runs one phase. Returning 'stop' lets in-flight phases finish but starts no more. */
+  runPhase(phase: T): Promise<'continue' | 'stop'>;
+}
+
+/**
+ * Runs phases as a dependency graph. A phase is ready once the phases it
+ * requires (among those being run) have finished; ready phases start in
+ * list order, up to `concurrency` at a time. Dependencies outside the list
+ * are the caller's to check. On the first failure no new phases start, the
+ * running ones are awaited, and the failure is rethrown.
+ *
+ * Resolves to true when a phase asked to stop.
+ */
+export async function runPhaseGraph<T extends SchedulablePhase>(
+  phases: T[],
+  options: PhaseGraphOptions<T>
+): Promise<boolean> {
+  const concurrency = Math.max(1, options.concurrency);
+  const ids = new Set(phases.map((phase) => phase.id));
+  const done = new Set<string>();
+  const pending = [...phases];
+  const running = new Map<string, { exclusive: boolean; promise: Promise<void> }>();
+  let failure: unknown = null;
+  let stopped = false;
+
+  const isReady = (phase: T, index: number): boolean => {
+    if (!phase.requiredPhases.every((id) => done.has(id) || !ids.has(id))) return false;
+    if (options.isExclusive(phase)) return index === 0 && running.size === 0;
+    if (Array.from(running.values()).some((entry) => entry.exclusive)) return false;
+    // Later phases never overtake an exclusive phase that is still waiting.
+    return !pending.slice(0, index).some((earlier) => options.isExclusive(earlier));
+  };
+
+  const launch = (phase: T): void => {
+    const exclusive = options.isExclusive(phase);
+    const promise = options
+      .runPhase(phase)
+      .then((outcome) => {
+        done.add(phase.id);
+        if (outcome === 'stop') stopped = true;
+      })
+      .catch((error) => {
+        if (failure === null) failure = error;
+      })
+      .finally(() => {
+        running.delete(phase.id);
+      });
+    running.set(phase.id, { exclusive, promise });
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    if (failure === null && !stopped) {
+      for (let index = 0; index < pending.length && running.size < concurrency; ) {
+        if (isReady(pending[index], index)) {
+          launch(pending.splice(index, 1)[0]);
+        } else {
+          index++;
+        }
+      }
+    }
+    if (running.size === 0) {
+      if (failure !== null || stopped) break;
+      throw new Error(
+        `Phases ${pending.map((phase) => phase.id).join(', ')} can never start: their required phases do not run before them.`
+      );
+    }
+    await Promise.race(Array.from(running.values()).map((entry) => entry.promise));
+  }
+
+  if (failure !== null) throw failure;
+  return stopped;
+}
+
+/**
+ * Serializes async critical sections, such as read-modify-write updates of
+ * a run's config.json by phases that finish at the same time.
+ */
+export function createLock(): <T>(fn: () => T | Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => T | Promise<T>): Promise<T> => {
+    const result = tail.then(fn);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
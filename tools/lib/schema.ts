@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+
+// ---------------------------------------------------------------------------
+// JSON Schema Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * The JSON Schema subset used by artifact sidecar schemas: `type`,
+ * `properties`, `required`, `additionalProperties`, `items`, `enum`,
+ * `minItems`/`maxItems`, `minLength`/`pattern` and `minimum`/`maximum`.
+ * Other keywords (`$schema`, `title`, `description`, ...) are ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+// Stop collecting after this many errors; a wholly wrong document would otherwise flood the log.
+const MAX_SCHEMA_ERRORS = 25;
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateNode(value: unknown, schema: JsonSchema, at: string, errors: string[]): void {
+  if (errors.length >= MAX_SCHEMA_ERRORS) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must be at least ${schema.minLength} character(s)`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: "${value}" does not match /${schema.pattern}/`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, `${at}[${index}]`, errors));
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(child, propertySchema, `${at}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, `${at}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/** Validation errors for `value` (empty when it conforms), as "$.path: problem" messages. */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '$', errors);
+  return errors;
+}
+
+function checkSchemaNode(node: unknown, at: string, errors: string[]): void {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    errors.push(`${at} must be an object`);
+    return;
+  }
+  const schema = node as Record<string, unknown>;
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  for (const type of types) {
+    if (!SCHEMA_TYPES.includes(type as JsonSchemaType)) errors.push(`${at}.type "${String(type)}" is not supported`);
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(String(schema.pattern));
+    } catch {
+      errors.push(`${at}.pattern is not a valid regular expression`);
+    }
+  }
+  if (schema.required !== undefined && !Array.isArray(schema.required)) errors.push(`${at}.required must be an array`);
+  if (schema.properties !== undefined) {
+    if (typeof schema.properties !== 'object' || schema.properties === null) {
+      errors.push(`${at}.properties must be an object`);
+    } else {
+      for (const [key, child] of Object.entries(schema.properties)) checkSchemaNode(child, `${at}.properties.${key}`, errors);
+    }
+  }
+  if (schema.items !== undefined) checkSchemaNode(schema.items, `${at}.items`, errors);
+  if (typeof schema.additionalProperties === 'object') {
+    checkSchemaNode(schema.additionalProperties, `${at}.additionalProperties`, errors);
+  }
+}
+
+/** Reads a schema file and checks the keywords this validator relies on. */
+export function loadJsonSchema(filePath: string): JsonSchema {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`JSON schema ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+  const errors: string[] = [];
+  checkSchemaNode(parsed, 'schema', errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid JSON schema ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return parsed as JsonSchema;
+}
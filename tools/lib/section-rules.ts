@@ -0,0 +1,361 @@
+// ---------------------------------------------------------------------------
+// Artifact Section Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Extra checks for one required section, declared per phase under
+ * `sectionRules` in the pipeline definition. Without a rule a required
+ * section only has to be a non-empty Markdown heading.
+ */
+export interface SectionRule {
+  /** Heading level(s) the section must use, e.g. 2 or [2, 3]. Any level when unset. */
+  level?: number | number[];
+  /** Minimum characters of content under the heading, subsections included. Default 1. */
+  minChars?: number;
+  /** A Markdown table the section must contain; every column must appear in its header row. */
+  table?: { columns: string[] };
+  /** Other heading spellings that count as this section. */
+  aliases?: string[];
+}
+
+/** Required section name -> its rule. */
+export type SectionRules = Record<string, SectionRule>;
+
+export interface SectionSpec {
+  requiredSections: string[];
+  sectionRules: SectionRules;
+  /** Placeholder text that must not appear anywhere in the artifact (e.g. "TBD"). */
+  forbiddenText: string[];
+}
+
+export type SectionViolationKind = 'missing' | 'level' | 'content' | 'table' | 'placeholder';
+
+export interface SectionViolation {
+  /** Required section the problem is in; null for placeholder text outside every required section. */
+  section: string | null;
+  kind: SectionViolationKind;
+  message: string;
+}
+
+interface Heading {
+  level: number;
+  text: string;
+  /** Line index of the heading. */
+  line: number;
+  /**
+   * Line index where the section ends: the next heading at the same or a
+   * higher level, or the next heading of another required section, so a
+   * required section nested in another is not counted as its content.
+   */
+  end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** Lowercase letters and digits only, for loose comparison of headings and table columns. */
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseHeadings(lines: string[], spec: Pick<SectionSpec, 'requiredSections' | 'sectionRules'>): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+  for (const [index, line] of lines.entries()) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) continue;
+    const match = line.match(HEADING_PATTERN);
+    if (match) headings.push({ level: match[1].length, text: match[2], line: index, end: lines.length });
+  }
+  const patterns = spec.requiredSections.flatMap((section) =>
+    sectionNames(section, spec.sectionRules[section]).map(namePattern)
+  );
+  const isSectionHeading = (heading: Heading): boolean =>
+    patterns.some((pattern) => pattern.test(heading.text.toLowerCase()));
+  for (const [index, heading] of headings.entries()) {
+    const next = headings
+      .slice(index + 1)
+      .find((candidate) => candidate.level <= heading.level || isSectionHeading(candidate));
+    if (next) heading.end = next.line;
+  }
+  return headings;
+}
+
+function sectionNames(section: string, rule: SectionRule | undefined): string[] {
+  return [section, ...(rule?.aliases || [])].filter((name) => compact(name));
+}
+
+/**
+ * Matches a name's words in order, ignoring separators, but not as the tail
+ * of a longer word or hyphenated compound ("Functional Requirements" does not
+ * match "Non-Functional Requirements").
+ */
+function namePattern(name: string): RegExp {
+  const words = name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(escapeRegExp);
+  return new RegExp(`(?:^|[^a-z0-9-])${words.join('[^a-z0-9]*')}(?![a-z0-9])`);
+}
+
+function allowedLevels(rule: SectionRule | undefined): number[] | null {
+  if (rule?.level === undefined) return null;
+  return Array.isArray(rule.level) ? rule.level : [rule.level];
+}
+
+/** Headings for a section, exact titles (ignoring numbering like "4.5") before partial matches. */
+function findSectionHeadings(headings: Heading[], section: string, rule: SectionRule | undefined): Heading[] {
+  const names = sectionNames(section, rule);
+  const exact = (heading: Heading): boolean =>
+    names.some((name) => compact(heading.text).replace(/^[0-9]+/, '') === compact(name));
+  return headings
+    .filter((heading) => names.some((name) => namePattern(name).test(heading.text.toLowerCase())))
+    .sort((a, b) => Number(exact(b)) - Number(exact(a)));
+}
+
+function tableHeaders(lines: string[]): string[][] {
+  const headers: string[][] = [];
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].trim().startsWith('|') || !TABLE_SEPARATOR_PATTERN.test(lines[i + 1].trim())) continue;
+    headers.push(
+      lines[i]
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => compact(cell))
+    );
+  }
+  return headers;
+}
+
+function forbiddenPattern(text: string): RegExp {
+  const start = /^\w/.test(text) ? '\\b' : '';
+  const end = /\w$/.test(text) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(text)}${end}`, 'g');
+}
+
+function describeLevels(levels: number[]): string {
+  return levels.map((level) => `H${level}`).join(' or ');
+}
+
+/**
+ * Checks the artifact's required sections against their rules: each must be
+ * a heading (at an allowed level) with enough content and any required
+ * table, and no forbidden placeholder text may appear (case-sensitive,
+ * outside code fences). Placeholder hits are reported against the required
+ * section they sit in, or with a null section outside all of them.
+ */
+export function checkArtifactSections(content: string, spec: SectionSpec): SectionViolation[] {
+  const lines = content.split('\n');
+  const headings = parseHeadings(lines, spec);
+  const violations: SectionViolation[] = [];
+  const located: Array<{ section: string; heading: Heading }> = [];
+
+  for (const section of spec.requiredSections) {
+    const rule = spec.sectionRules[section];
+    const candidates = findSectionHeadings(headings, section, rule);
+    if (candidates.length === 0) {
+      const mentioned = sectionNames(section, rule).some((name) => namePattern(name).test(content.toLowerCase()));
+      violations.push({
+        section,
+        kind: 'missing',
+        message: mentioned
+          ? `Missing expected section "${section}" (mentioned in the text, but not as a heading)`
+          : `Missing expected section "${section}"`,
+      });
+      continue;
+    }
+
+    const levels = allowedLevels(rule);
+    const heading = candidates.find((candidate) => !levels || levels.includes(candidate.level)) || candidates[0];
+    located.push({ section, heading });
+    if (levels && !levels.includes(heading.level)) {
+      violations.push({
+        section,
+        kind: 'level',
+        message: `uses an H${heading.level} heading; expected ${describeLevels(levels)}`,
+      });
+    }
+
+    const body = lines.slice(heading.line + 1, heading.end);
+    const contentChars = body
+      .filter((line) => !HEADING_PATTERN.test(line))
+      .join('')
+      .replace(/\s+/g, '').length;
+    const minChars = rule?.minChars ?? 1;
+    if (contentChars < minChars) {
+      violations.push({
+        section,
+        kind: 'content',
+        message: contentChars === 0
+          ? 'has no content under its heading'
+          : `has ${contentChars} characters of content; expected at least ${minChars}`,
+      });
+    }
+
+    if (rule?.table) {
+      const headers = tableHeaders(body);
+      const missingColumns = (header: string[]): string[] =>
+        rule.table!.columns.filter((column) => !header.some((cell) => cell.includes(compact(column))));
+      if (headers.length === 0) {
+        violations.push({
+          section,
+          kind: 'table',
+          message: `has no Markdown table; expected one with columns: ${rule.table.columns.join(', ')}`,
+        });
+      } else {
+        const closest = headers
+          .map(missingColumns)
+          .sort((a, b) => a.length - b.length)[0];
+        if (closest.length > 0) {
+          violations.push({
+            section,
+            kind: 'table',
+            message: `table is missing column(s): ${closest.join(', ')}`,
+          });
+        }
+      }
+    }
+  }
+
+  for (const text of spec.forbiddenText) {
+    const pattern = forbiddenPattern(text);
+    const hits = new Map<string | null, number>();
+    let inFence = false;
+    for (const [index, line] of lines.entries()) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) continue;
+      const count = (line.match(pattern) || []).length;
+      if (count === 0) continue;
+      // Innermost required section containing the line.
+      const owner = located
+        .filter(({ heading }) => heading.line <= index && index < heading.end)
+        .sort((a, b) => b.heading.line - a.heading.line)[0];
+      const key = owner ? owner.section : null;
+      hits.set(key, (hits.get(key) || 0) + count);
+    }
+    for (const [section, count] of hits) {
+      violations.push({
+        section,
+        kind: 'placeholder',
+        message: `contains placeholder text "${text}" (${count} time(s))` +
+          (section === null ? ' outside the required sections' : ''),
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * One-line warning text for a violation, as reported by validateArtifactContent.
+ * Placeholder text outside the required sections is a plain warning, not a
+ * section rule violation.
+ */
+export function formatSectionViolation(phaseId: string, violation: SectionViolation): string {
+  if (violation.kind === 'missing') return `Phase ${phaseId}: ${violation.message}`;
+  if (violation.section === null) return `Phase ${phaseId}: Artifact ${violation.message}.`;
+  return `Phase ${phaseId}: Section rule violation in "${violation.section}": ${violation.message}`;
+}
+
+/** What a section must look like, for prompts ("H2 heading; a Markdown table with columns: ..."). */
+export function describeSectionRule(section: string, spec: SectionSpec): string {
+  const rule = spec.sectionRules[section];
+  const levels = allowedLevels(rule);
+  const parts = [levels ? `${describeLevels(levels)} heading` : 'a Markdown heading'];
+  if (rule?.minChars && rule.minChars > 1) parts.push(`at least ${rule.minChars} characters of content`);
+  if (rule?.table) parts.push(`a Markdown table with columns: ${rule.table.columns.join(', ')}`);
+  return `"${section}": ${parts.join('; ')}`;
+}
+
+/**
+ * Merges sections written by a backfill into the document: each listed
+ * section found in the supplement replaces the document's section of the
+ * same name (subsections included), or is appended when the document lacks
+ * it. A supplement without any listed heading is appended as a whole.
+ */
+export function mergeSectionSupplement(
+  document: string,
+  supplement: string,
+  sections: string[],
+  spec: SectionSpec
+): string {
+  const rules = spec.sectionRules;
+  const supplementLines = supplement.trim().split('\n');
+  const supplementHeadings = parseHeadings(supplementLines, spec);
+  let lines = document.trim().split('\n');
+  const appended: string[] = [];
+  let merged = 0;
+
+  for (const section of sections) {
+    const written = findSectionHeadings(supplementHeadings, section, rules[section])[0];
+    if (!written) continue;
+    merged++;
+    const block = supplementLines.slice(written.line, written.end).join('\n').trim().split('\n');
+    const existing = findSectionHeadings(parseHeadings(lines, spec), section, rules[section])[0];
+    if (existing) {
+      lines = [...lines.slice(0, existing.line), ...block, '', ...lines.slice(existing.end)];
+    } else {
+      appended.push(block.join('\n'));
+    }
+  }
+
+  if (merged === 0) return `${document.trim()}\n\n${supplement.trim()}\n`;
+  const body = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return `${[body, ...appended].join('\n\n')}\n`;
+}
+
+function validateRule(rule: unknown, where: string): string[] {
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) return [`${where} must be an object`];
+  const value = rule as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!['level', 'minChars', 'table', 'aliases'].includes(key)) errors.push(`${where}.${key} is not a section rule`);
+  }
+  const levels = Array.isArray(value.level) ? value.level : value.level === undefined ? [] : [value.level];
+  if (
+    (Array.isArray(value.level) && value.level.length === 0) ||
+    levels.some((level) => typeof level !== 'number' || !Number.isInteger(level) || level < 1 || level > 6)
+  ) {
+    errors.push(`${where}.level must be a heading level 1-6 or a non-empty array of them`);
+  }
+  if (
+    value.minChars !== undefined &&
+    (typeof value.minChars !== 'number' || !Number.isInteger(value.minChars) || value.minChars < 0)
+  ) {
+    errors.push(`${where}.minChars must be a non-negative integer`);
+  }
+  if (value.table !== undefined) {
+    const columns = (value.table as { columns?: unknown } | null)?.columns;
+    if (
+      !Array.isArray(columns) ||
+      columns.length === 0 ||
+      columns.some((column) => typeof column !== 'string' || !compact(column))
+    ) {
+      errors.push(`${where}.table.columns must be a non-empty array of column names`);
+    }
+  }
+  if (
+    value.aliases !== undefined &&
+    (!Array.isArray(value.aliases) || value.aliases.some((alias) => typeof alias !== 'string' || !compact(alias)))
+  ) {
+    errors.push(`${where}.aliases must be an array of non-empty strings`);
+  }
+  return errors;
+}
+
+/** Problems in a phase's `sectionRules`; every key must be one of its required sections. */
+export function validateSectionRules(value: unknown, requiredSections: string[], where: string): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${where} must be an object keyed by required section`];
+  }
+  const errors: string[] = [];
+  for (const [section, rule] of Object.entries(value as Record<string, unknown>)) {
+    if (!requiredSections.includes(section)) {
+      errors.push(`${where}."${section}" is not one of the phase's requiredSections`);
+    }
+    errors.push(...validateRule(rule, `${where}."${section}"`));
+  }
+  return errors;
+}
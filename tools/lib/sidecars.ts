@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PhaseDefinition, findPhase, isPhaseSkipped, phaseSidecarSchemaPath } from './pipeline-definition';
+import { JsonSchema, loadJsonSchema, validateAgainstSchema } from './schema';
+
+// ---------------------------------------------------------------------------
+// Artifact Sidecars
+// ---------------------------------------------------------------------------
+
+export const SIDECAR_OPEN = '<artifact_json>';
+export const SIDECAR_CLOSE = '</artifact_json>';
+
+/** Sidecar file next to a phase's artifact: `03_prd.md` -> `03_prd.json`. */
+export function sidecarFileName(phase: PhaseDefinition): string {
+  if (!phase.artifactFile) {
+    throw new Error(`Phase ${phase.id} (${phase.name}) has no artifact to attach a sidecar to.`);
+  }
+  return phase.artifactFile.replace(/\.md$/, '.json');
+}
+
+export function loadSidecarSchema(phase: PhaseDefinition): JsonSchema {
+  return loadJsonSchema(phaseSidecarSchemaPath(phase));
+}
+
+/**
+ * Extracts the JSON document from an agent's sidecar output: the body of
+ * the <artifact_json> envelope, else a single ```json fence, else the whole
+ * output.
+ */
+export function parseSidecarOutput(raw: string): { value: unknown } | { error: string } {
+  const text = raw.replace(/\r\n/g, '\n').trim();
+  const envelope = text.match(/<artifact_json>\s*([\s\S]*?)\s*<\/artifact_json>/i);
+  const fences = [...text.matchAll(/```(?:json)?\n([\s\S]*?)```/gi)];
+  const body = envelope?.[1] ?? (fences.length === 1 ? fences[0][1] : text);
+  try {
+    return { value: JSON.parse(body) };
+  } catch (error) {
+    return { error: `Sidecar is not valid JSON: ${(error as Error).message}` };
+  }
+}
+
+/** Schema errors for a phase's sidecar (empty when it conforms). */
+export function validateSidecar(phase: PhaseDefinition, value: unknown): string[] {
+  return validateAgainstSchema(value, loadSidecarSchema(phase));
+}
+
+export function writeArtifactSidecar(artifactsDir: string, phase: PhaseDefinition, value: unknown): string {
+  const sidecarPath = path.join(artifactsDir, sidecarFileName(phase));
+  fs.writeFileSync(sidecarPath, JSON.stringify(value, null, 2) + '\n');
+  return sidecarPath;
+}
+
+/**
+ * A phase's structured sidecar, or null when the phase has none: no schema,
+ * skipped, not generated yet, or its last sidecar failed validation.
+ */
+export function readArtifactSidecar(artifactsDir: string, phaseId: string): unknown | null {
+  const phase = findPhase(phaseId);
+  if (!phase?.sidecarSchema || !phase.artifactFile || isPhaseSkipped(phaseId)) return null;
+  const sidecarPath = path.join(artifactsDir, sidecarFileName(phase));
+  if (!fs.existsSync(sidecarPath)) return null;
+  return JSON.parse(fs.readFileSync(sidecarPath, 'utf-8'));
+}
@@ -0,0 +1,257 @@
+// ---------------------------------------------------------------------------
+// Requirement Traceability
+// ---------------------------------------------------------------------------
+
+export interface TraceRequirement {
+  /** Stable PRD id, e.g. "US-001" or "FR-003". */
+  id: string;
+  kind: 'story' | 'requirement';
+  title: string;
+  priority?: string;
+  /** Stories a functional requirement serves (from the PRD sidecar). */
+  stories?: string[];
+}
+
+export interface TraceTask {
+  id: string;
+  title: string;
+  /** Requirement ids the task names (its Implements line, body, or sidecar entry). */
+  requirementIds: string[];
+  /** Test files the task targets. */
+  testFiles: string[];
+}
+
+export interface TraceCommit {
+  sha: string;
+  subject: string;
+  taskId: string;
+  /** Test files the commit touched. */
+  testFiles: string[];
+}
+
+export interface TraceFailure {
+  check: string;
+  file: string;
+  title: string;
+}
+
+/**
+ * - uncovered: no task names the requirement
+ * - not-implemented: tasks name it, but none has a Phase 9 commit yet
+ * - untested: implemented, but no linked test file
+ * - failing: a linked test file (or a test titled with the id) failed in Phase 10
+ * - covered: implemented and tested, with no known failures
+ */
+export type TraceStatus = 'uncovered' | 'not-implemented' | 'untested' | 'failing' | 'covered';
+
+export interface TraceabilityEntry {
+  requirement: TraceRequirement;
+  status: TraceStatus;
+  tasks: string[];
+  commits: string[];
+  testFiles: string[];
+  failures: TraceFailure[];
+}
+
+export interface TraceabilityMatrix {
+  generated_at: string;
+  /** False until Phase 10 has produced results; failures are then unknown. */
+  tests_run: boolean;
+  entries: TraceabilityEntry[];
+  /** Tasks that name no known requirement id. */
+  unlinked_tasks: string[];
+  summary: Record<TraceStatus, number>;
+}
+
+const REQUIREMENT_ID_PATTERN = /\b(US|FR)-\d+\b/g;
+const TASK_COMMIT_PATTERN = /^Pipeline Phase 9 - Task \d+\/\d+ \(([^)]+)\):/;
+const TRACE_STATUSES: TraceStatus[] = ['uncovered', 'not-implemented', 'untested', 'failing', 'covered'];
+
+export function findRequirementIds(text: string): string[] {
+  return Array.from(new Set(text.match(REQUIREMENT_ID_PATTERN) || []));
+}
+
+/** Task id of a Phase 9 task commit subject, or null for other commits. */
+export function taskIdFromCommitSubject(subject: string): string | null {
+  return subject.match(TASK_COMMIT_PATTERN)?.[1] ?? null;
+}
+
+interface PrdSidecar {
+  user_stories?: Array<{ id: string; persona: string; action: string; priority?: string }>;
+  functional_requirements?: Array<{ id: string; name: string; stories?: string[] }>;
+}
+
+/**
+ * Requirement ids from the PRD: its JSON sidecar when available, plus any
+ * other US-/FR- ids found in the Markdown (titled by the line that defines
+ * them).
+ */
+export function extractRequirements(prdMarkdown: string, prdSidecar: unknown | null): TraceRequirement[] {
+  const requirements = new Map<string, TraceRequirement>();
+  const sidecar = (prdSidecar || {}) as PrdSidecar;
+  for (const story of sidecar.user_stories || []) {
+    requirements.set(story.id, {
+      id: story.id,
+      kind: 'story',
+      title: `As a ${story.persona}, I want to ${story.action}`,
+      priority: story.priority,
+    });
+  }
+  for (const requirement of sidecar.functional_requirements || []) {
+    requirements.set(requirement.id, {
+      id: requirement.id,
+      kind: 'requirement',
+      title: requirement.name,
+      stories: requirement.stories,
+    });
+  }
+
+  // The first id on a line is the one it defines; ids it merely references
+  // are only added (with that line as title) if no line defines them.
+  const referenced: Array<{ id: string; line: string }> = [];
+  const addFromLine = (id: string, line: string): void => {
+    if (requirements.has(id)) return;
+    const title = line
+      .replace(/[#*`|>_]/g, ' ')
+      .replace(new RegExp(`\\b${id}\\b[:.)\\s-]*`), '')
+      .replace(/\bP[0-2]\b/g, '')
+      .replace(/^[\s\-:.]+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    requirements.set(id, {
+      id,
+      kind: id.startsWith('US-') ? 'story' : 'requirement',
+      title: title.length > 120 ? `${title.slice(0, 117)}...` : title || id,
+      priority: line.match(/\bP[0-2]\b/)?.[0],
+    });
+  };
+  for (const line of prdMarkdown.split('\n')) {
+    const [defined, ...others] = findRequirementIds(line);
+    if (defined) addFromLine(defined, line);
+    for (const id of others) referenced.push({ id, line });
+  }
+  for (const { id, line } of referenced) addFromLine(id, line);
+
+  const order = (id: string): [number, number] => [id.startsWith('US-') ? 0 : 1, Number(id.split('-')[1])];
+  return Array.from(requirements.values()).sort((a, b) => {
+    const [kindA, numA] = order(a.id);
+    const [kindB, numB] = order(b.id);
+    return kindA - kindB || numA - numB;
+  });
+}
+
+function sameTestFile(a: string, b: string): boolean {
+  const left = a.replace(/\\/g, '/').replace(/^\.\//, '');
+  const right = b.replace(/\\/g, '/').replace(/^\.\//, '');
+  return left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`);
+}
+
+/**
+ * Links each requirement to the tasks that name it, those tasks' Phase 9
+ * commits, their test files, and Phase 10 failures in those files (or whose
+ * test title names the requirement). Pass `failures: null` before Phase 10.
+ */
+export function buildTraceabilityMatrix(input: {
+  requirements: TraceRequirement[];
+  tasks: TraceTask[];
+  commits: TraceCommit[];
+  failures: TraceFailure[] | null;
+}): TraceabilityMatrix {
+  const known = new Set(input.requirements.map((requirement) => requirement.id));
+  const entries = input.requirements.map((requirement): TraceabilityEntry => {
+    const tasks = input.tasks.filter((task) => task.requirementIds.includes(requirement.id));
+    const taskIds = new Set(tasks.map((task) => task.id));
+    // Decomposed slices ("M1-2-S1") commit under their own ids.
+    const commits = input.commits.filter(
+      (commit) => taskIds.has(commit.taskId) || Array.from(taskIds).some((id) => commit.taskId.startsWith(`${id}-`))
+    );
+    const testFiles = Array.from(
+      new Set([...tasks.flatMap((task) => task.testFiles), ...commits.flatMap((commit) => commit.testFiles)])
+    ).sort();
+    const failures = (input.failures || []).filter(
+      (failure) =>
+        testFiles.some((file) => sameTestFile(file, failure.file)) ||
+        findRequirementIds(failure.title).includes(requirement.id)
+    );
+
+    let status: TraceStatus;
+    if (tasks.length === 0) status = 'uncovered';
+    else if (commits.length === 0) status = 'not-implemented';
+    else if (failures.length > 0) status = 'failing';
+    else if (testFiles.length === 0) status = 'untested';
+    else status = 'covered';
+
+    return {
+      requirement,
+      status,
+      tasks: Array.from(taskIds),
+      commits: commits.map((commit) => commit.sha),
+      testFiles,
+      failures,
+    };
+  });
+
+  const summary = Object.fromEntries(TRACE_STATUSES.map((status) => [status, 0])) as Record<TraceStatus, number>;
+  for (const entry of entries) summary[entry.status]++;
+
+  return {
+    generated_at: new Date().toISOString(),
+    tests_run: input.failures !== null,
+    entries,
+    unlinked_tasks: input.tasks
+      .filter((task) => !task.requirementIds.some((id) => known.has(id)))
+      .map((task) => task.id),
+    summary,
+  };
+}
+
+function cell(values: string[], limit: number = 4): string {
+  if (values.length === 0) return '—';
+  const shown = values.slice(0, limit).map((value) => `\`${value}\``);
+  if (values.length > limit) shown.push(`+${values.length - limit} more`);
+  return shown.join(', ').replace(/\|/g, '\\|');
+}
+
+export function renderTraceabilityMarkdown(matrix: TraceabilityMatrix): string {
+  const flagged = matrix.entries.filter((entry) => entry.status !== 'covered');
+  const lines = [
+    '# Requirement Traceability',
+    '',
+    `- Generated: ${matrix.generated_at}`,
+    `- Requirements: ${matrix.entries.length}`,
+    ...TRACE_STATUSES.map((status) => `- ${status}: ${matrix.summary[status]}`),
+    ...(matrix.tests_run ? [] : ['- Phase 10 has not run yet; test failures are not linked.']),
+    '',
+    '## Flagged Requirements',
+    '',
+    ...(flagged.length === 0
+      ? ['None. Every requirement is implemented and tested.']
+      : flagged.map(
+          (entry) =>
+            `- **${entry.requirement.id}** (${entry.status}${entry.requirement.priority ? `, ${entry.requirement.priority}` : ''}): ` +
+            entry.requirement.title
+        )),
+    '',
+    '## Matrix',
+    '',
+    '| Requirement | Priority | Status | Tasks | Commits | Test Files | Failures |',
+    '|-------------|----------|--------|-------|---------|------------|----------|',
+    ...matrix.entries.map((entry) =>
+      [
+        '',
+        ` ${entry.requirement.id} `,
+        ` ${entry.requirement.priority || '—'} `,
+        ` ${entry.status} `,
+        ` ${cell(entry.tasks)} `,
+        ` ${cell(entry.commits.map((sha) => sha.slice(0, 7)))} `,
+        ` ${cell(entry.testFiles, 3)} `,
+        ` ${cell(entry.failures.map((failure) => `${failure.file}: ${failure.title}`), 2)} `,
+        '',
+      ].join('|')
+    ),
+  ];
+  if (matrix.unlinked_tasks.length > 0) {
+    lines.push('', '## Tasks Without Requirement IDs', '', matrix.unlinked_tasks.map((id) => `- ${id}`).join('\n'));
+  }
+  return lines.join('\n') + '\n';
+}
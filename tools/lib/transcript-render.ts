@@ -0,0 +1,355 @@
+import * as path from 'path';
+import type { Transcript } from './transcripts';
+
+// ---------------------------------------------------------------------------
+// Transcript Rendering
+// ---------------------------------------------------------------------------
+
+type ToolCategory = 'shell' | 'edit' | 'tool';
+
+type TranscriptBlock =
+  | { kind: 'turn'; turn: number; t: number }
+  | { kind: 'text'; text: string }
+  | {
+    kind: 'tool';
+    id: string;
+    category: ToolCategory;
+    name: string;
+    summary: string;
+    input: string;
+    output: string | null;
+    isError: boolean;
+  }
+  | { kind: 'stderr'; text: string };
+
+// Long tool outputs are cut so rendered pages stay readable.
+const MAX_TOOL_OUTPUT_CHARS = 20_000;
+const MAX_TOOL_INPUT_CHARS = 8_000;
+
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  return `${text.slice(0, limit)}\n… (${(text.length - limit).toLocaleString()} more characters)`;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined || value === null) return '';
+  return JSON.stringify(value, null, 2);
+}
+
+function toolCategory(name: string): ToolCategory {
+  if (/^(bash|shell|command_execution)$/i.test(name)) return 'shell';
+  if (/^(edit|write|multiedit|notebookedit|file_change)$/i.test(name)) return 'edit';
+  return 'tool';
+}
+
+function summarizeToolInput(name: string, input: unknown): string {
+  if (!input || typeof input !== 'object') return name;
+  const fields = input as Record<string, unknown>;
+  const target = fields.command || fields.file_path || fields.path || fields.pattern || fields.url || fields.query;
+  return target ? `${name}: ${String(target).split('\n')[0].slice(0, 160)}` : name;
+}
+
+type EventFields = Record<string, unknown>;
+
+/** Codex file_change entry. */
+interface FileChange {
+  kind?: string;
+  path?: string;
+}
+
+/** Object entries of an event array field (Claude message content), skipping anything else. */
+function eventParts(value: unknown): EventFields[] {
+  return Array.isArray(value)
+    ? value.filter((part): part is EventFields => Boolean(part) && typeof part === 'object')
+    : [];
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (part && typeof part === 'object' && 'text' in part ? String((part as { text: unknown }).text) : stringify(part)))
+      .join('\n');
+  }
+  return stringify(content);
+}
+
+/**
+ * Folds raw engine events into display blocks. Understands Claude
+ * stream-json/json events and Codex `--json` events; other engines'
+ * events are shown as generic tool blocks.
+ */
+function buildBlocks(transcript: Transcript): TranscriptBlock[] {
+  const blocks: TranscriptBlock[] = [];
+  const toolsById = new Map<string, Extract<TranscriptBlock, { kind: 'tool' }>>();
+  let turn = 0;
+  let anonymousId = 0;
+
+  const startTurn = (t: number): void => {
+    turn++;
+    blocks.push({ kind: 'turn', turn, t });
+  };
+  const addTool = (block: Omit<Extract<TranscriptBlock, { kind: 'tool' }>, 'kind'>): void => {
+    const tool = { kind: 'tool' as const, ...block };
+    blocks.push(tool);
+    toolsById.set(tool.id, tool);
+  };
+
+  for (const record of transcript.records) {
+    if (record.type === 'stderr') {
+      if (record.text && record.text.trim()) blocks.push({ kind: 'stderr', text: record.text.trimEnd() });
+      continue;
+    }
+    if (record.type === 'stdout') {
+      if (record.text && record.text.trim()) blocks.push({ kind: 'text', text: record.text });
+      continue;
+    }
+
+    if (!record.event || typeof record.event !== 'object') continue;
+    const event = record.event as EventFields;
+    const message = event.message && typeof event.message === 'object' ? (event.message as EventFields) : null;
+
+    // Claude stream-json
+    if (event.type === 'assistant' && message && Array.isArray(message.content)) {
+      startTurn(record.t);
+      for (const part of eventParts(message.content)) {
+        if (part.type === 'text' && typeof part.text === 'string' && part.text.trim()) {
+          blocks.push({ kind: 'text', text: part.text.trim() });
+        }
+        if (part.type === 'tool_use') {
+          const name = typeof part.name === 'string' && part.name ? part.name : 'tool';
+          addTool({
+            id: String(part.id || `tool-${++anonymousId}`),
+            category: toolCategory(name),
+            name,
+            summary: summarizeToolInput(name, part.input),
+            input: stringify(part.input),
+            output: null,
+            isError: false,
+          });
+        }
+      }
+      continue;
+    }
+    if (event.type === 'user' && message && Array.isArray(message.content)) {
+      for (const part of eventParts(message.content)) {
+        if (part.type !== 'tool_result') continue;
+        const tool = toolsById.get(String(part.tool_use_id));
+        if (tool) {
+          tool.output = toolResultText(part.content);
+          tool.isError = Boolean(part.is_error);
+        }
+      }
+      continue;
+    }
+
+    // Codex --json
+    if (event.type === 'turn.started') {
+      startTurn(record.t);
+      continue;
+    }
+    if (event.type === 'item.completed' && event.item && typeof event.item === 'object') {
+      const item = event.item as EventFields;
+      if (item.type === 'agent_message' && item.text) {
+        blocks.push({ kind: 'text', text: String(item.text).trim() });
+      } else if (item.type === 'command_execution') {
+        addTool({
+          id: String(item.id || `tool-${++anonymousId}`),
+          category: 'shell',
+          name: 'command_execution',
+          summary: `Shell: ${String(item.command || '').split('\n')[0].slice(0, 160)}`,
+          input: String(item.command || ''),
+          output: item.aggregated_output != null ? String(item.aggregated_output) : null,
+          isError: typeof item.exit_code === 'number' && item.exit_code !== 0,
+        });
+      } else if (item.type === 'file_change') {
+        const changes = Array.isArray(item.changes)
+          ? eventParts(item.changes).map(
+            (change: FileChange) => `${change.kind || 'update'} ${change.path || ''}`.trim()
+          )
+          : [String(item.file || '')];
+        addTool({
+          id: String(item.id || `tool-${++anonymousId}`),
+          category: 'edit',
+          name: 'file_change',
+          summary: `File change: ${changes.join(', ')}`,
+          input: changes.join('\n'),
+          output: null,
+          isError: item.status === 'failed',
+        });
+      } else if (item.type === 'mcp_tool_call') {
+        const name = String(item.tool || 'tool');
+        addTool({
+          id: String(item.id || `tool-${++anonymousId}`),
+          category: 'tool',
+          name,
+          summary: summarizeToolInput(name, item.arguments),
+          input: stringify(item.arguments),
+          output: item.result != null ? stringify(item.result) : null,
+          isError: item.status === 'failed',
+        });
+      }
+      continue;
+    }
+    if (event.type === 'turn.failed' || event.type === 'error') {
+      blocks.push({ kind: 'stderr', text: stringify(event.error || event.message || event) });
+    }
+  }
+
+  return blocks;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function diagnosticsRows(transcript: Transcript): Array<[string, string]> {
+  const { header, result } = transcript;
+  const rows: Array<[string, string]> = [
+    ['Scope', header.label],
+    ['Engine', header.model ? `${header.engine} (${header.model})` : header.engine],
+    ['Started', header.started_at],
+    ['Working directory', header.cwd],
+    ['Retry', String(header.retry)],
+  ];
+  if (!result) {
+    rows.push(['Status', 'incomplete (no result recorded)']);
+    return rows;
+  }
+  rows.push(['Status', result.status]);
+  rows.push(['Elapsed', result.elapsed]);
+  if (result.exit_code !== null) rows.push(['Exit code', String(result.exit_code)]);
+  if (result.turns !== undefined) rows.push(['Turns', String(result.turns)]);
+  if (result.cost_usd) rows.push(['Cost', `$${result.cost_usd.toFixed(4)}`]);
+  if (result.input_tokens || result.output_tokens) {
+    rows.push(['Tokens', `${(result.input_tokens || 0).toLocaleString()} in / ${(result.output_tokens || 0).toLocaleString()} out`]);
+  }
+  if (result.cache_read_tokens || result.cache_write_tokens) {
+    rows.push(['Cache tokens', `${(result.cache_read_tokens || 0).toLocaleString()} read / ${(result.cache_write_tokens || 0).toLocaleString()} written`]);
+  }
+  if (result.output_source) rows.push(['Output source', result.output_source]);
+  if (result.stop_reason) rows.push(['Stop reason', result.stop_reason]);
+  if (result.result_subtype) rows.push(['Result subtype', result.result_subtype]);
+  if (result.session_id) rows.push(['Session', result.session_id]);
+  if (result.error) rows.push(['Error', result.error]);
+  return rows;
+}
+
+function toolIcon(category: ToolCategory): string {
+  if (category === 'shell') return '$';
+  if (category === 'edit') return '✎';
+  return '⚙';
+}
+
+// ----- Markdown -----
+
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map((ticks) => ticks.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}\n${text}\n${ticks}`;
+}
+
+export function renderTranscriptMarkdown(transcript: Transcript): string {
+  const lines: string[] = [];
+  lines.push(`# Agent Transcript: ${transcript.header.label}\n`);
+  lines.push('| Field | Value |');
+  lines.push('|-------|-------|');
+  for (const [field, value] of diagnosticsRows(transcript)) {
+    lines.push(`| ${field} | ${value.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`);
+  }
+  lines.push('');
+  lines.push('<details><summary>Prompt</summary>\n');
+  lines.push(fence(transcript.header.prompt));
+  lines.push('\n</details>\n');
+
+  for (const block of buildBlocks(transcript)) {
+    if (block.kind === 'turn') {
+      lines.push(`## Turn ${block.turn} (${formatSeconds(block.t)})\n`);
+    } else if (block.kind === 'text') {
+      lines.push(`${block.text}\n`);
+    } else if (block.kind === 'stderr') {
+      lines.push(`<details><summary>stderr</summary>\n\n${fence(truncate(block.text, MAX_TOOL_OUTPUT_CHARS))}\n\n</details>\n`);
+    } else {
+      const status = block.isError ? ' (error)' : '';
+      lines.push(`**${toolIcon(block.category)} ${block.summary}**${status}\n`);
+      lines.push(`<details><summary>Input</summary>\n\n${fence(truncate(block.input, MAX_TOOL_INPUT_CHARS))}\n\n</details>\n`);
+      if (block.output !== null) {
+        lines.push(`<details><summary>Output</summary>\n\n${fence(truncate(block.output, MAX_TOOL_OUTPUT_CHARS))}\n\n</details>\n`);
+      }
+    }
+  }
+
+  lines.push(`---\nSource: \`${path.basename(transcript.file)}\``);
+  return lines.join('\n') + '\n';
+}
+
+// ----- HTML -----
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  td, th { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; vertical-align: top; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 2rem; }
+  pre { background: #f6f8fa; padding: 10px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+  .text { white-space: pre-wrap; }
+  .tool { border-left: 3px solid #0969da; padding-left: 10px; margin: 10px 0; }
+  .tool.shell { border-color: #1a7f37; }
+  .tool.edit { border-color: #9a6700; }
+  .tool.error { border-color: #cf222e; }
+  summary { cursor: pointer; color: #57606a; }
+`;
+
+export function renderTranscriptHtml(transcript: Transcript): string {
+  const body: string[] = [];
+  body.push(`<h1>Agent Transcript: ${escapeHtml(transcript.header.label)}</h1>`);
+  body.push('<table>');
+  for (const [field, value] of diagnosticsRows(transcript)) {
+    body.push(`<tr><th>${escapeHtml(field)}</th><td>${escapeHtml(value)}</td></tr>`);
+  }
+  body.push('</table>');
+  body.push(`<details><summary>Prompt</summary><pre>${escapeHtml(transcript.header.prompt)}</pre></details>`);
+
+  for (const block of buildBlocks(transcript)) {
+    if (block.kind === 'turn') {
+      body.push(`<h2>Turn ${block.turn} <small>(${formatSeconds(block.t)})</small></h2>`);
+    } else if (block.kind === 'text') {
+      body.push(`<div class="text">${escapeHtml(block.text)}</div>`);
+    } else if (block.kind === 'stderr') {
+      body.push(`<details><summary>stderr</summary><pre>${escapeHtml(truncate(block.text, MAX_TOOL_OUTPUT_CHARS))}</pre></details>`);
+    } else {
+      const classes = ['tool', block.category, ...(block.isError ? ['error'] : [])].join(' ');
+      body.push(`<div class="${classes}">`);
+      body.push(`<strong>${escapeHtml(`${toolIcon(block.category)} ${block.summary}`)}</strong>${block.isError ? ' (error)' : ''}`);
+      body.push(`<details><summary>Input</summary><pre>${escapeHtml(truncate(block.input, MAX_TOOL_INPUT_CHARS))}</pre></details>`);
+      if (block.output !== null) {
+        body.push(`<details><summary>Output</summary><pre>${escapeHtml(truncate(block.output, MAX_TOOL_OUTPUT_CHARS))}</pre></details>`);
+      }
+      body.push('</div>');
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(`Transcript: ${transcript.header.label}`)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    `<hr><p><small>Source: ${escapeHtml(path.basename(transcript.file))}</small></p>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeScopeLabel, phaseIdFromScopeLabel } from './routing';
+
+// ---------------------------------------------------------------------------
+// Agent Transcripts
+// ---------------------------------------------------------------------------
+
+/**
+ * Transcript files are JSONL. The first line is a `header` record, then one
+ * record per stdout/stderr line in arrival order, then a `result` record:
+ *
+ *   {"type":"header", ...TranscriptHeader}
+ *   {"type":"event","t":1234,"event":{...raw engine event...}}
+ *   {"type":"stdout","t":1234,"text":"non-JSON stdout line"}
+ *   {"type":"stderr","t":1234,"text":"stderr chunk"}
+ *   {"type":"result", ...TranscriptResult}
+ *
+ * `t` is milliseconds since the agent started.
+ */
+export interface TranscriptHeader {
+  label: string;
+  phase: string | null;
+  task: number | null;
+  attempt: number | null;
+  retry: number;
+  engine: string;
+  model?: string;
+  cwd: string;
+  command: string[];
+  started_at: string;
+  prompt: string;
+}
+
+export interface TranscriptResult {
+  status: 'ok' | 'error';
+  exit_code: number | null;
+  elapsed: string;
+  output_bytes: number;
+  turns?: number;
+  cost_usd?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_tokens?: number;
+  cache_write_tokens?: number;
+  output_source?: string;
+  stop_reason?: string;
+  result_subtype?: string;
+  session_id?: string;
+  error?: string;
+}
+
+/** One line of `transcripts/index.jsonl`, written when an invocation finishes. */
+export interface TranscriptIndexEntry {
+  file: string;
+  label: string;
+  phase: string | null;
+  task: number | null;
+  attempt: number | null;
+  retry: number;
+  engine: string;
+  model?: string;
+  started_at: string;
+  finished_at: string;
+  elapsed: string;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+export interface TranscriptWriter {
+  file: string;
+  event(t: number, event: unknown): void;
+  stdout(t: number, text: string): void;
+  stderr(t: number, text: string): void;
+  close(result: TranscriptResult): void;
+}
+
+export const TRANSCRIPT_INDEX_FILE = 'index.jsonl';
+
+function transcriptFileStem(label: string): string {
+  const normalized = normalizeScopeLabel(label || 'agent')
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return normalized.slice(0, 120) || 'agent';
+}
+
+/** Task number and attempt number parsed from a scope label such as "9-task-3-quality-repair-2". */
+function parseScopeIndexes(label: string): { task: number | null; attempt: number | null } {
+  const normalized = normalizeScopeLabel(label);
+  const task = normalized.match(/\btask-(\d+)\b/);
+  const attempt = normalized.match(/-(\d+)$/);
+  return {
+    task: task ? Number(task[1]) : null,
+    attempt: attempt && normalized !== attempt[1] ? Number(attempt[1]) : null,
+  };
+}
+
+/**
+ * Opens `<dir>/<scope>.jsonl` for one agent invocation. Repeated invocations
+ * of the same scope (retries, failover) get `<scope>.2.jsonl`, `<scope>.3.jsonl`, ...
+ */
+export function openTranscript(
+  transcriptDir: string,
+  header: Omit<TranscriptHeader, 'phase' | 'task' | 'attempt'>
+): TranscriptWriter {
+  fs.mkdirSync(transcriptDir, { recursive: true });
+  const stem = transcriptFileStem(header.label);
+  let file = path.join(transcriptDir, `${stem}.jsonl`);
+  for (let n = 2; fs.existsSync(file); n++) {
+    file = path.join(transcriptDir, `${stem}.${n}.jsonl`);
+  }
+
+  const fullHeader: TranscriptHeader = {
+    ...header,
+    phase: phaseIdFromScopeLabel(header.label),
+    ...parseScopeIndexes(header.label),
+  };
+  const fd = fs.openSync(file, 'a', 0o600);
+  const write = (record: object): void => {
+    fs.writeSync(fd, JSON.stringify(record) + '\n');
+  };
+  write({ type: 'header', ...fullHeader });
+
+  let closed = false;
+  return {
+    file,
+    event: (t, event) => write({ type: 'event', t, event }),
+    stdout: (t, text) => write({ type: 'stdout', t, text }),
+    stderr: (t, text) => write({ type: 'stderr', t, text }),
+    close: (result) => {
+      if (closed) return;
+      closed = true;
+      write({ type: 'result', ...result });
+      fs.closeSync(fd);
+
+      const entry: TranscriptIndexEntry = {
+        file: path.basename(file),
+        label: fullHeader.label,
+        phase: fullHeader.phase,
+        task: fullHeader.task,
+        attempt: fullHeader.attempt,
+        retry: fullHeader.retry,
+        engine: fullHeader.engine,
+        ...(fullHeader.model ? { model: fullHeader.model } : {}),
+        started_at: fullHeader.started_at,
+        finished_at: new Date().toISOString(),
+        elapsed: result.elapsed,
+        status: result.status,
+        ...(result.error ? { error: result.error } : {}),
+      };
+      fs.appendFileSync(path.join(transcriptDir, TRANSCRIPT_INDEX_FILE), JSON.stringify(entry) + '\n');
+    },
+  };
+}
+
+export function readTranscriptIndex(transcriptDir: string): TranscriptIndexEntry[] {
+  const indexPath = path.join(transcriptDir, TRANSCRIPT_INDEX_FILE);
+  if (!fs.existsSync(indexPath)) return [];
+  return fs
+    .readFileSync(indexPath, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TranscriptIndexEntry);
+}
+
+export interface TranscriptRecord {
+  type: 'event' | 'stdout' | 'stderr';
+  t: number;
+  event?: unknown;
+  text?: string;
+}
+
+export interface Transcript {
+  file: string;
+  header: TranscriptHeader;
+  records: TranscriptRecord[];
+  /** Missing when the pipeline stopped before the agent finished. */
+  result: TranscriptResult | null;
+}
+
+export function readTranscript(file: string): Transcript {
+  const lines = fs.readFileSync(file, 'utf-8').split('\n').filter((line) => line.trim());
+  let header: TranscriptHeader | null = null;
+  let result: TranscriptResult | null = null;
+  const records: TranscriptRecord[] = [];
+
+  for (const line of lines) {
+    let record: { type?: string } & Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue; // partially written line
+    }
+    if (record.type === 'header') {
+      const { type: _type, ...rest } = record;
+      header = rest as unknown as TranscriptHeader;
+    } else if (record.type === 'result') {
+      const { type: _type, ...rest } = record;
+      result = rest as unknown as TranscriptResult;
+    } else if (record.type === 'event' || record.type === 'stdout' || record.type === 'stderr') {
+      records.push(record as unknown as TranscriptRecord);
+    }
+  }
+
+  if (!header) {
+    throw new Error(`Not an agent transcript (missing header): ${file}`);
+  }
+  return { file, header, records, result };
+}
@@ -1,10 +1,30 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { Engine, hasEngineAdapter, listEngineIds, loadEngineAdapterModules } from './engines';
+import {
+  SKIPPED_PHASE_CONTENT,
+  findPhase,
+  getPipelineDefinition,
+  isPhaseSkipped,
+  usePipelineDefinition,
+} from './pipeline-definition';
+import { PhaseHookConfig, validatePhaseHookConfig } from './hooks';
+import { SectionViolation, checkArtifactSections, formatSectionViolation } from './section-rules';
+import { EngineRoute } from './routing';
 
 // ---------------------------------------------------------------------------
 // Run Configuration
 // ---------------------------------------------------------------------------
 
+export interface EngineFailoverEvent {
+  scope: string;
+  phase: string;
+  from: Engine;
+  to: Engine;
+  reason: string;
+  at: string;
+}
+
 export interface RunConfig {
   run_id: string;
   idea: string;
@@ -15,9 +35,30 @@ export interface RunConfig {
   repo_url?: string;
   default_branch: string;
   visibility: 'public' | 'private';
-  engine: 'claude' | 'codex';
+  engine: Engine;
+  // Local engine adapter modules loaded before the engine is resolved
+  engine_modules?: string[];
+  // Per-phase / per-scope engine and model overrides (see --engine-for)
+  engine_routes?: EngineRoute[];
+  // Fallback engines tried in order when the selected engine is missing or exhausts its retries
+  engine_failover?: Engine[];
+  engine_failovers?: EngineFailoverEvent[];
+  // Fixture file for the mock engine
+  mock_fixture?: string;
+  // Rate card for cost estimates (pricing.json when unset)
+  pricing_file?: string;
+  // Pipeline definition the run was started with (pipeline.json when unset)
+  pipeline_file?: string;
+  // Candidates generated per variants-enabled phase (see --variants)
+  artifact_variants?: number;
   claude_output_format?: 'stream-json' | 'json';
   interactive_mode?: boolean;
+  // Phases left out of the run (see --skip-phases)
+  skipped_phases?: string[];
+  // How gates are answered in interactive mode: at the terminal (default) or via runs/<id>/approvals files
+  approval_mode?: 'terminal' | 'file';
+  // Shell commands run before/after phases, keyed by phase id (see --hooks)
+  phase_hooks?: PhaseHookConfig;
   timeout_ms?: number;
   current_phase: string;
   completed_phases: string[];
@@ -28,36 +69,61 @@ export interface RunConfig {
   total_estimated_cost_usd?: number;
   phase_costs_actual?: Record<string, number>;
   phase_costs_estimated?: Record<string, number>;
+  engine_costs?: Record<string, number>;
   total_input_tokens?: number;
   total_output_tokens?: number;
+  total_cache_read_tokens?: number;
+  total_cache_write_tokens?: number;
+  cache_savings_usd?: number;
   // Task-level checkpointing for Phase 9
   last_completed_task?: number;
   task_decomposition_events?: number;
   dynamic_tasks_added?: number;
   // Stage-level checkpointing for Phase 10 (10A integration, 10B e2e)
   phase10_completed_stages?: Array<'10A' | '10B'>;
+  // Set on runs created with --fork
+  forked_from?: RunForkOrigin;
+  // Human decisions at approval gates, in order
+  approval_decisions?: ApprovalDecision[];
+  // Phases whose artifact was supplied with --import-artifact instead of generated
+  imported_artifacts?: ImportedArtifact[];
 }
 
-// ---------------------------------------------------------------------------
-// Artifact & Phase Definitions
-// ---------------------------------------------------------------------------
+export interface ApprovalDecision {
+  phase: string;
+  // pre-run: before the phase starts; review: after its artifact is generated
+  gate: 'pre-run' | 'review';
+  action: 'approve' | 'pause' | 'view' | 'edit' | 'reject';
+  at: string;
+  // Review round (1 for the first draft, +1 per rejection)
+  attempt?: number;
+  feedback?: string;
+  // Validation warnings after an edit
+  warnings?: number;
+  // Set when the decision came from an approvals/ file instead of the terminal
+  via?: 'file';
+}
 
-const ARTIFACT_FILES: Record<string, string> = {
-  '0': '00_idea_intake.md',
-  '1': '01_problem_framing.md',
-  '2': '02_workflows.md',
-  '3': '02b_design_theme.md',
-  '4': '03_prd.md',
-  '5': '03b_repo_baseline.md',
-  '6': '04_feasibility_review.md',
-  '7': '05_tech_spec.md',
-  '8': '06_task_breakdown.md',
-  '10': '07b_test_results.md',
-  '11': '07c_ux_reachability.md',
-  '12': '08_audit.md',
-};
-
-const VALID_PHASE_IDS = new Set(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12']);
+export interface ImportedArtifact {
+  phase: string;
+  // Absolute path of the imported file
+  source: string;
+  imported_at: string;
+  // Set when missing sections were backfilled (--normalize-imports)
+  normalized: boolean;
+  // Validation warnings left after the import
+  warnings: string[];
+}
+
+export interface RunForkOrigin {
+  run_id: string;
+  run_dir: string;
+  // First phase the fork runs itself
+  at_phase: string;
+  forked_at: string;
+  // Source run's total cost when it was forked (not counted in the fork's totals)
+  source_cost_usd: number;
+}
 
 // ---------------------------------------------------------------------------
 // Artifact Validation
@@ -67,7 +133,7 @@ export function validateArtifactsExist(artifactsDir: string, phases: string[]):
   const missing: string[] = [];
 
   for (const phase of phases) {
-    const fileName = ARTIFACT_FILES[phase];
+    const fileName = findPhase(phase)?.artifactFile;
     if (!fileName) continue;
 
     const filePath = path.join(artifactsDir, fileName);
@@ -84,35 +150,11 @@ export function validateArtifactsExist(artifactsDir: string, phases: string[]):
   }
 }
 
-// Expected sections per phase for output validation
-const REQUIRED_SECTIONS: Record<string, string[]> = {
-  '0': ['App Name', 'One-Line Description', 'Problem Statement', 'Target Users', 'Core Features'],
-  '1': ['Problem Decomposition', 'User Personas', 'Pain Points', 'Core Value Proposition'],
-  '2': ['Information Architecture', 'Primary User Flows', 'Screen Inventory', 'Navigation Reachability Matrix'],
-  '3': ['Visual Direction', 'Color System', 'Typography System', 'Theme Tokens'],
-  '4': ['Executive Summary', 'User Stories', 'Functional Requirements', 'Non-Functional Requirements', 'Navigation & Reachability Requirements'],
-  '6': ['Template Fit Assessment', 'Technical Risks', 'Go / No-Go'],
-  '7': ['Architecture Overview', 'Data Model', 'API Design', 'Route-to-Screen Traceability Matrix', 'Security Considerations'],
-  '8': ['Implementation Milestones', 'Task List', 'Routing Coverage Matrix', 'Navigation Reachability Task Matrix', 'Template Demo Removal & Rebranding', 'Dependency Graph'],
-  '11': ['Journey Coverage Summary', 'Discoverability Findings', 'Branding Findings', 'Reachability Verdict'],
-  '12': ['Requirements Coverage', 'Discoverability & Branding Coverage', 'Security Review', 'Overall Assessment'],
-};
-
-function hasRequiredSection(content: string, section: string): boolean {
-  const lowered = content.toLowerCase();
-  if (lowered.includes(section.toLowerCase())) {
-    return true;
-  }
-
-  // Accept common heading spelling variants to reduce false negatives.
-  if (section === 'Non-Functional Requirements') {
-    return /non[-\s]?functional requirements/i.test(content);
-  }
-  if (section === 'Go / No-Go') {
-    return /go\s*\/?\s*no[-\s]?go/i.test(content);
-  }
-
-  return false;
+/** Section rule violations for a phase's artifact (none for phases without required sections). */
+export function checkPhaseSections(phaseId: string, content: string): SectionViolation[] {
+  const phase = findPhase(phaseId);
+  if (!phase) return [];
+  return checkArtifactSections(content, phase);
 }
 
 export function validateArtifactContent(phaseId: string, content: string): string[] {
@@ -157,14 +199,9 @@ export function validateArtifactContent(phaseId: string, content: string): strin
     warnings.push(`Phase ${phaseId}: Artifact appears truncated at the end.`);
   }
 
-  // Check required sections
-  const required = REQUIRED_SECTIONS[phaseId];
-  if (required) {
-    for (const section of required) {
-      if (!hasRequiredSection(content, section)) {
-        warnings.push(`Phase ${phaseId}: Missing expected section "${section}"`);
-      }
-    }
+  // Check required sections against the phase's section rules
+  for (const violation of checkPhaseSections(phaseId, content)) {
+    warnings.push(formatSectionViolation(phaseId, violation));
   }
 
   return warnings;
@@ -209,15 +246,19 @@ export function validateVisibility(value: string): asserts value is 'public' | '
   }
 }
 
-export function validateEngine(value: string): asserts value is 'claude' | 'codex' {
-  if (value !== 'claude' && value !== 'codex') {
-    throw new Error(`Invalid engine: "${value}". Must be "claude" or "codex".`);
+export function validateEngine(value: string): asserts value is Engine {
+  if (!hasEngineAdapter(value)) {
+    throw new Error(`Invalid engine: "${value}". Must be one of: ${listEngineIds().join(', ')}.`);
   }
 }
 
 export function validatePhaseId(value: string): void {
-  if (!VALID_PHASE_IDS.has(value)) {
-    throw new Error(`Invalid phase ID: "${value}". Valid phases: ${[...VALID_PHASE_IDS].join(', ')}`);
+  if (!findPhase(value)) {
+    const definition = getPipelineDefinition();
+    throw new Error(
+      `Invalid phase ID: "${value}". Valid phases in pipeline "${definition.name}": ` +
+      definition.phases.map((phase) => phase.id).join(', ')
+    );
   }
 }
 
@@ -236,6 +277,18 @@ export function validateBudget(value: number): void {
   }
 }
 
+export function validateVariants(value: number): void {
+  if (!Number.isInteger(value) || value < 1 || value > 5) {
+    throw new Error(`Invalid variants: must be a whole number from 1 to 5.`);
+  }
+}
+
+export function validateConcurrency(value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid concurrency: must be a positive whole number of phases.`);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Config Persistence
 // ---------------------------------------------------------------------------
@@ -252,8 +305,24 @@ export function validateConfig(config: RunConfig): void {
     errors.push('visibility must be "public" or "private"');
   }
 
-  if (config.engine && !['claude', 'codex'].includes(config.engine)) {
-    errors.push('engine must be "claude" or "codex"');
+  if (config.engine && !hasEngineAdapter(config.engine)) {
+    errors.push(`engine must be one of: ${listEngineIds().join(', ')}`);
+  }
+
+  for (const engine of config.engine_failover || []) {
+    if (!hasEngineAdapter(engine)) {
+      errors.push(`engine_failover uses unknown engine "${engine}"`);
+    }
+  }
+
+  for (const route of config.engine_routes || []) {
+    if (!hasEngineAdapter(route.engine)) {
+      errors.push(`engine_routes "${route.selector}" uses unknown engine "${route.engine}"`);
+    }
+  }
+
+  if (config.phase_hooks) {
+    errors.push(...validatePhaseHookConfig(config.phase_hooks).map((error) => `phase_hooks: ${error}`));
   }
 
   if (
@@ -304,6 +373,10 @@ export function loadConfig(runDir: string): RunConfig {
     config.current_phase = String(config.current_phase);
   }
 
+  // Custom engines must be registered before the configured engine can be validated.
+  loadEngineAdapterModules(config.engine_modules);
+  usePipelineDefinition(config.pipeline_file);
+
   validateConfig(config);
   return config;
 }
@@ -313,8 +386,10 @@ export function saveConfig(runDir: string, config: RunConfig): void {
   fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n');
 }
 
+/** Reads a phase's artifact; skipped phases (see --skip-phases) read as SKIPPED_PHASE_CONTENT. */
 export function readArtifact(artifactsDir: string, phase: string): string {
-  const fileName = ARTIFACT_FILES[phase];
+  if (isPhaseSkipped(phase)) return SKIPPED_PHASE_CONTENT;
+  const fileName = findPhase(phase)?.artifactFile;
   if (!fileName) {
     throw new Error(`No artifact file defined for phase ${phase}`);
   }
@@ -3,7 +3,33 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
-import { runAgent, buildPrompt, cleanArtifact, estimateTokens, Engine, AgentResult } from './lib/agent';
+import {
+  runAgent,
+  buildPrompt,
+  cleanArtifact,
+  estimateTokens,
+  cancelActiveAgents,
+  setAgentsPaused,
+  areAgentsPaused,
+  setLabelledAgentLogs,
+  Engine,
+  AgentResult,
+} from './lib/agent';
+import {
+  getEngineAdapter,
+  listEngineIds,
+  loadEngineAdapterModule,
+  supportsSessionResume,
+} from './lib/engines';
+import {
+  EngineRoute,
+  formatEngineRoute,
+  normalizeScopeLabel,
+  parseEngineRoutes,
+  resolveEngineRoute,
+} from './lib/routing';
+import { readTranscript, readTranscriptIndex } from './lib/transcripts';
+import { renderTranscriptHtml, renderTranscriptMarkdown } from './lib/transcript-render';
 import {
   bootstrapRepo,
   cleanupWorkspaceVerificationArtifacts,
@@ -19,12 +45,28 @@ import {
   runWorkspaceDependencyInstall,
   runWorkspaceQualityChecks,
   runWorkspaceTests,
+  listGitCommits,
 } from './lib/git';
 import { summarizeRepoBaseline } from './lib/workspace';
+import { estimateCacheSavings, loadRateCard, setRateCardFile } from './lib/pricing';
+import {
+  PhaseDefinition,
+  SKIPPED_PHASE_CONTENT,
+  findPhase,
+  findPhaseByKind,
+  getPipelineDefinition,
+  isPhaseSkipped,
+  phasePromptPath,
+  setSkippedPhases,
+  usePipelineDefinition,
+} from './lib/pipeline-definition';
+import { getPhasePlugin, loadPhasePlugins } from './lib/plugins';
 import {
   RunConfig,
+  ApprovalDecision,
   validateArtifactsExist,
   validateArtifactContent,
+  checkPhaseSections,
   loadConfig,
   saveConfig,
   readArtifact,
@@ -36,14 +78,55 @@ import {
   validatePhaseId,
   validateTimeout,
   validateBudget,
+  validateConcurrency,
+  validateVariants,
 } from './lib/validate';
+import { createLock, runPhaseGraph } from './lib/scheduler';
+import { findStalePhases, recordPhaseFingerprint } from './lib/fingerprints';
+import { countForks, forkRun } from './lib/fork';
+import { FileApprovalResponse, approvalsDir, requestFileApproval } from './lib/approvals';
+import { JsonSchema } from './lib/schema';
+import {
+  SectionViolation,
+  describeSectionRule,
+  formatSectionViolation,
+  mergeSectionSupplement,
+} from './lib/section-rules';
+import {
+  ArtifactChangeReason,
+  loadArtifactHistory,
+  readArtifactVersion,
+  recordArtifactVersion,
+  summarizeArtifactHistory,
+} from './lib/artifact-history';
+import { diffArtifactSections, renderArtifactDiff } from './lib/artifact-diff';
+import { ArtifactImportSpec, parseArtifactImport, readImportedArtifact } from './lib/artifact-import';
+import {
+  SIDECAR_CLOSE,
+  SIDECAR_OPEN,
+  loadSidecarSchema,
+  parseSidecarOutput,
+  readArtifactSidecar,
+  sidecarFileName,
+  validateSidecar,
+  writeArtifactSidecar,
+} from './lib/sidecars';
+import { HookStage, PhaseHookConfig, loadPhaseHookConfig, runPhaseHooks } from './lib/hooks';
+import {
+  TraceFailure,
+  TraceTask,
+  buildTraceabilityMatrix,
+  extractRequirements,
+  findRequirementIds,
+  renderTraceabilityMarkdown,
+  taskIdFromCommitSubject,
+} from './lib/traceability';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 const ROOT_DIR = path.resolve(__dirname, '..');
-const PROMPTS_DIR = path.join(ROOT_DIR, 'prompts');
 const RUNS_DIR = path.join(ROOT_DIR, 'runs');
 
 const DEFAULT_TEMPLATE = 'jamesjlundin/full-stack-web-and-mobile-template';
@@ -53,9 +136,6 @@ const DEFAULT_BRANCH = 'main';
 const MAX_RETRIES = 3;
 const RETRY_DELAYS_MS = [30_000, 60_000, 120_000]; // 30s, 60s, 120s
 
-// Phases where human approval is requested in interactive mode
-const APPROVAL_GATES = new Set(['4', '5', '8', '11']);
-
 // Context window warning threshold (tokens)
 const CONTEXT_WARNING_THRESHOLD = 80_000;
 const MAX_ARTIFACT_REPAIR_ATTEMPTS = 1;
@@ -78,6 +158,10 @@ const TEST_REPAIR_CONTEXT_CHAR_LIMIT = 130_000;
 const TEST_REPAIR_EVIDENCE_MAX_CHARS = 14_000;
 const PHASE11_REPAIR_CONTEXT_CHAR_LIMIT = 120_000;
 const PHASE12_REPAIR_CONTEXT_CHAR_LIMIT = 130_000;
+// Shared by all candidates in a best-of-N judge prompt
+const VARIANT_JUDGE_CONTEXT_CHAR_LIMIT = 120_000;
+const SIDECAR_ARTIFACT_CHAR_LIMIT = 100_000;
+const MAX_SIDECAR_REPAIR_ATTEMPTS = 1;
 const CANONICAL_TEMPLATE_TEST_FILE_PATTERNS = [
   /^packages\/tests\/src\/.+\.test\.[cm]?[tj]sx?$/i,
   /^apps\/web\/e2e\/.+\.spec\.[cm]?[tj]sx?$/i,
@@ -115,42 +199,18 @@ const PHASE9_E2E_SETUP_SMOKE_FILE_HINTS = [
   'packages/auth/',
 ];
 
-const CODEX_EST_INPUT_USD_PER_1M = Number.parseFloat(
-  process.env.CODEX_EST_INPUT_USD_PER_1M || '3'
-);
-const CODEX_EST_OUTPUT_USD_PER_1M = Number.parseFloat(
-  process.env.CODEX_EST_OUTPUT_USD_PER_1M || '15'
-);
-
-interface PhaseDefinition {
-  id: string;
-  name: string;
-  promptFile: string | null;
-  needsRepo: boolean;
-  artifactFile: string | null;
-  requiredPhases: string[];
-}
-
-const PHASES: PhaseDefinition[] = [
-  { id: '0', name: 'Idea Intake', promptFile: '00_idea_intake.md', needsRepo: false, artifactFile: '00_idea_intake.md', requiredPhases: [] },
-  { id: '1', name: 'Problem Framing', promptFile: '01_problem_framing.md', needsRepo: false, artifactFile: '01_problem_framing.md', requiredPhases: ['0'] },
-  { id: '2', name: 'Workflows', promptFile: '02_workflows.md', needsRepo: false, artifactFile: '02_workflows.md', requiredPhases: ['0', '1'] },
-  { id: '3', name: 'Design & Theme', promptFile: '02b_design_theme.md', needsRepo: false, artifactFile: '02b_design_theme.md', requiredPhases: ['0', '1', '2'] },
-  { id: '4', name: 'PRD', promptFile: '03_prd.md', needsRepo: false, artifactFile: '03_prd.md', requiredPhases: ['0', '1', '2', '3'] },
-  { id: '5', name: 'Repo Bootstrap', promptFile: null, needsRepo: false, artifactFile: '03b_repo_baseline.md', requiredPhases: ['4'] },
-  { id: '6', name: 'Feasibility Review', promptFile: '04_feasibility_review.md', needsRepo: true, artifactFile: '04_feasibility_review.md', requiredPhases: ['0', '4', '5'] },
-  { id: '7', name: 'Tech Spec', promptFile: '05_tech_spec.md', needsRepo: true, artifactFile: '05_tech_spec.md', requiredPhases: ['2', '3', '4', '5', '6'] },
-  { id: '8', name: 'Task Breakdown', promptFile: '06_task_breakdown.md', needsRepo: true, artifactFile: '06_task_breakdown.md', requiredPhases: ['2', '3', '4', '6', '7'] },
-  { id: '9', name: 'Implementation', promptFile: '07_implementation.md', needsRepo: true, artifactFile: null, requiredPhases: ['4', '7', '8'] },
-  { id: '10', name: 'Test & Verify', promptFile: null, needsRepo: true, artifactFile: '07b_test_results.md', requiredPhases: ['9'] },
-  { id: '11', name: 'UX Reachability', promptFile: '07c_ux_reachability.md', needsRepo: true, artifactFile: '07c_ux_reachability.md', requiredPhases: ['2', '7', '8', '9', '10'] },
-  { id: '12', name: 'Audit', promptFile: '08_audit.md', needsRepo: true, artifactFile: '08_audit.md', requiredPhases: ['2', '3', '4', '7', '8', '9', '10', '11'] },
-];
-
-const ARTIFACT_PHASE_IDS = new Set(
-  PHASES.filter((phase) => phase.artifactFile !== null).map((phase) => phase.id)
-);
 let ACTIVE_RUN_DIR: string | null = null;
+// Saved when the pipeline is interrupted so a resume keeps cost and checkpoint state
+let ACTIVE_CONFIG: RunConfig | null = null;
+let INTERRUPTED = false;
+// Set by --record / --engine replay; agent calls then write or read runs/<id>/cassettes
+let CASSETTE_MODE: 'record' | 'replay' | null = null;
+// Fixture file for the mock engine (config.mock_fixture, or --mock-fixture)
+let MOCK_FIXTURE: string | null = null;
+// Per-phase / per-scope engine overrides (config.engine_routes)
+let ENGINE_ROUTES: EngineRoute[] = [];
+// Fallback engines (config.engine_failover)
+let ENGINE_FAILOVER: Engine[] = [];
 
 // ---------------------------------------------------------------------------
 // CLI Argument Parsing
@@ -166,11 +226,27 @@ interface CLIArgs {
   visibility?: 'public' | 'private';
   repoName?: string;
   engine?: Engine;
+  engineModules?: string[];
+  engineRoutes?: EngineRoute[];
+  engineFailover?: Engine[];
+  hooks?: PhaseHookConfig;
+  skipPhases?: string[];
+  importArtifacts?: ArtifactImportSpec[];
+  normalizeImports?: boolean;
   claudeOutputFormat?: 'stream-json' | 'json';
   timeoutMs?: number;
   budgetUsd?: number;
   interactive?: boolean;
+  fileApprovals?: boolean;
   dryRun?: boolean;
+  record?: boolean;
+  mockFixture?: string;
+  pricingFile?: string;
+  pipelineFile?: string;
+  concurrency?: number;
+  variants?: number;
+  fork?: string;
+  atPhase?: string;
 }
 
 function validateClaudeOutputFormat(value: string): asserts value is 'stream-json' | 'json' {
@@ -193,7 +269,12 @@ function parseArgs(): CLIArgs {
         break;
       case '--from-phase':
         result.fromPhase = args[++i];
-        validatePhaseId(result.fromPhase);
+        break;
+      case '--fork':
+        result.fork = args[++i];
+        break;
+      case '--at-phase':
+        result.atPhase = args[++i];
         break;
       case '--owner': {
         const owner = args[++i];
@@ -219,10 +300,32 @@ function parseArgs(): CLIArgs {
         result.repoName = name;
         break;
       }
-      case '--engine': {
-        const eng = args[++i];
-        validateEngine(eng);
-        result.engine = eng;
+      case '--engine':
+        // Validated after parsing so --engine-module can register custom engines first
+        result.engine = args[++i];
+        break;
+      case '--engine-for':
+        result.engineRoutes = [...(result.engineRoutes || []), ...parseEngineRoutes(args[++i])];
+        break;
+      case '--engine-failover':
+        result.engineFailover = args[++i].split(',').map((engine) => engine.trim()).filter(Boolean);
+        break;
+      case '--skip-phases':
+        result.skipPhases = (args[++i] || '').split(',').map((id) => id.trim()).filter(Boolean);
+        break;
+      case '--hooks':
+        result.hooks = loadPhaseHookConfig(args[++i]);
+        break;
+      case '--import-artifact':
+        result.importArtifacts = [...(result.importArtifacts || []), parseArtifactImport(args[++i])];
+        break;
+      case '--normalize-imports':
+        result.normalizeImports = true;
+        break;
+      case '--engine-module': {
+        const modulePath = path.resolve(args[++i]);
+        loadEngineAdapterModule(modulePath);
+        result.engineModules = [...(result.engineModules || []), modulePath];
         break;
       }
       case '--claude-output-format': {
@@ -243,15 +346,45 @@ function parseArgs(): CLIArgs {
         result.budgetUsd = budget;
         break;
       }
+      case '--concurrency': {
+        const concurrency = Number(args[++i]);
+        validateConcurrency(concurrency);
+        result.concurrency = concurrency;
+        break;
+      }
+      case '--variants': {
+        const variants = Number(args[++i]);
+        validateVariants(variants);
+        result.variants = variants;
+        break;
+      }
       case '--interactive':
         result.interactive = true;
+        result.fileApprovals = false;
+        break;
+      case '--file-approvals':
+        result.interactive = true;
+        result.fileApprovals = true;
         break;
       case '--auto':
         result.interactive = false;
+        result.fileApprovals = undefined;
         break;
       case '--dry-run':
         result.dryRun = true;
         break;
+      case '--record':
+        result.record = true;
+        break;
+      case '--mock-fixture':
+        result.mockFixture = path.resolve(args[++i]);
+        break;
+      case '--pricing':
+        result.pricingFile = path.resolve(args[++i]);
+        break;
+      case '--pipeline':
+        result.pipelineFile = path.resolve(args[++i]);
+        break;
       case '--help':
         printUsage();
         process.exit(0);
@@ -263,6 +396,16 @@ function parseArgs(): CLIArgs {
     }
   }
 
+  if (result.engine !== undefined) {
+    validateEngine(result.engine);
+  }
+  for (const route of result.engineRoutes || []) {
+    validateEngine(route.engine);
+  }
+  for (const engine of result.engineFailover || []) {
+    validateEngine(engine);
+  }
+
   return result;
 }
 
@@ -274,19 +417,49 @@ Options:
   --idea-file <path>       Read app idea from a Markdown/text file
   --resume <run-dir>       Resume from an existing run directory
   --from-phase <n>         Start from a specific phase (e.g., 6, 5, 11)
+  --fork <run-dir>         Start a new run from an existing run's artifacts (requires --at-phase)
+  --at-phase <n>           Phase the fork diverges at; earlier phases are copied, it and later ones re-run
   --owner <github-user>    GitHub owner for new repo (default: auto-detect)
   --template <owner/repo>  Template repo (default: ${DEFAULT_TEMPLATE})
   --visibility <pub|priv>  Repo visibility (default: ${DEFAULT_VISIBILITY})
   --repo-name <name>       Explicit repo name (default: slugified from idea)
-  --engine <claude|codex>  AI engine to use (default: claude)
+  --engine <id>            AI engine to use: ${listEngineIds().join(' | ')} (default: claude)
+  --engine-module <path>   Load a custom engine adapter module (repeatable)
+  --engine-for <routes>    Per-phase engine/model routing, e.g. 0-4=codex,9=claude:opus,10-*-repair-*=claude
+                           (<phase|range|scope>=<engine>[:<model>], repeatable; replaces saved routes on resume)
+  --engine-failover <ids>  Fallback engines tried in order when the engine CLI is missing or
+                           retries run out, e.g. codex
+  --skip-phases <ids>      Leave phases out of the run, e.g. 3,11 (their placeholders read
+                           "${SKIPPED_PHASE_CONTENT}"; replaces saved list on resume, "" clears it)
+  --hooks <path>           JSON file of pre/post shell commands per phase id (replaces saved hooks on resume)
+  --import-artifact <n>=<path>
+                           Use a human-authored Markdown file as phase n's artifact and mark the
+                           phase complete, e.g. 4=docs/prd.md (repeatable)
+  --normalize-imports      Backfill missing or failing sections of imported artifacts with the agent
   --claude-output-format   Claude output mode: stream-json | json (default: json)
   --timeout <minutes>      Timeout per phase in minutes (default: no timeout)
   --budget <dollars>       Maximum total cost in USD (aborts if exceeded)
+  --concurrency <n>        Run up to n independent artifact phases at once (default: 1)
+  --variants <n>           Generate n candidates for PRD, Tech Spec and Task Breakdown and keep
+                           the judge's pick (losers saved as *.variant-k.md; default: 1)
   --interactive            Pause for human approval at key phases (default for new runs)
+  --file-approvals         Gate like --interactive, but wait for approval files in runs/<id>/approvals
+                           instead of terminal answers
   --auto                   Run all phases without pausing for approval
   --dry-run                Print assembled prompts without running agents
+  --record                 Save every agent result as a cassette under runs/<id>/cassettes
+                           (replay later with --resume <run-dir> --engine replay)
+  --mock-fixture <path>    Fixture of canned agent responses for --engine mock
+  --pricing <path>         Rate card used for cost estimates (default: pricing.json)
+  --pipeline <path>        Pipeline definition listing the phases to run (default: pipeline.json)
   --help                   Show this help message
 
+Subcommands:
+  transcript <run-dir> [scope] [--format md|html] [--out <path>|-]
+                           Render a saved agent transcript (run with --help for details)
+  diff <run-dir> [artifact] [from] [to] [--stat]
+                           Compare saved artifact versions section by section (run with --help for details)
+
 Examples:
   npx ts-node tools/run-pipeline.ts "A task management app for remote teams"
   npx ts-node tools/run-pipeline.ts --idea-file ideas/orphan-app.md
@@ -295,7 +468,12 @@ Examples:
   npx ts-node tools/run-pipeline.ts --resume runs/2026-02-07_codex_task-manager --from-phase 6
   npx ts-node tools/run-pipeline.ts --resume runs/2026-02-07_codex_task-manager --from-phase 11 --auto
   npx ts-node tools/run-pipeline.ts --resume runs/2026-02-07_codex_task-manager --from-phase 11
+  npx ts-node tools/run-pipeline.ts --file-approvals "A task management app"
   npx ts-node tools/run-pipeline.ts --dry-run "A task management app"
+  npx ts-node tools/run-pipeline.ts --record --auto "A task management app"
+  npx ts-node tools/run-pipeline.ts --import-artifact 4=docs/prd.md --normalize-imports "A task management app"
+  npx ts-node tools/run-pipeline.ts --resume runs/2026-02-07_claude_task-manager --from-phase 0 --engine replay --auto
+  npx ts-node tools/run-pipeline.ts transcript runs/2026-02-07_claude_task-manager 9-task-3 --format html
 `);
 }
 
@@ -311,6 +489,10 @@ function slugify(text: string): string {
     .slice(0, 50);
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 function timestamp(): string {
   return new Date().toISOString().split('T')[0];
 }
@@ -351,11 +533,57 @@ function loadIdeaFromFile(filePath: string): string {
   return content;
 }
 
+/**
+ * Reports completed phases whose prompt or upstream artifacts changed since
+ * they ran. Re-running them is required in auto mode and offered in
+ * interactive mode; accepted phases are marked incomplete. Returns the
+ * earliest phase to re-run, or null.
+ */
+async function handleStalePhases(
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  opts: { interactive: boolean; dryRun: boolean }
+): Promise<string | null> {
+  const stale = findStalePhases(config.completed_phases, artifactsDir);
+  if (stale.length === 0) return null;
+
+  log('Resume', `${stale.length} completed phase(s) are stale:`);
+  for (const { phase, reasons } of stale) {
+    log('Resume', `  Phase ${phase.id} (${phase.name}): ${reasons.join('; ')}`);
+    appendLog(runDir, `Stale phase ${phase.id}: ${reasons.join('; ')}`);
+  }
+  if (opts.dryRun) return null;
+
+  if (!opts.interactive) {
+    log('Resume', 'Auto mode: stale phases will be re-run.');
+  }
+  const rerun = opts.interactive
+    ? await promptApproval(`Re-run stale phases starting at phase ${stale[0].phase.id}?`)
+    : true;
+  if (!rerun) {
+    log('Resume', 'Keeping stale artifacts. Downstream phases may use outdated inputs.');
+    appendLog(runDir, 'Stale phases kept by user');
+    return null;
+  }
+
+  const staleIds = new Set(stale.map(({ phase }) => phase.id));
+  config.completed_phases = config.completed_phases.filter((id) => !staleIds.has(id));
+  saveConfig(runDir, config);
+  appendLog(runDir, `Stale phases marked for re-run: ${Array.from(staleIds).join(', ')}`);
+  return stale[0].phase.id;
+}
+
 /**
  * Prompts the user for yes/no confirmation. Returns true if approved.
  */
 async function promptApproval(question: string): Promise<boolean> {
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  // readline swallows Ctrl+C by default; route it to the process interrupt handler.
+  rl.on('SIGINT', () => {
+    rl.close();
+    process.kill(process.pid, 'SIGINT');
+  });
   return new Promise((resolve) => {
     rl.question(`\n${question} [Y/n] `, (answer) => {
       rl.close();
@@ -365,46 +593,412 @@ async function promptApproval(question: string): Promise<boolean> {
   });
 }
 
+function promptText(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  rl.on('SIGINT', () => {
+    rl.close();
+    process.kill(process.pid, 'SIGINT');
+  });
+  return new Promise((resolve) => {
+    rl.question(`\n${question} `, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Artifact Review
+// ---------------------------------------------------------------------------
+
+interface ReviewFeedback {
+  feedback: string;
+  draft: string;
+}
+
+type ReviewOutcome =
+  | { action: 'approve' | 'pause' }
+  | { action: 'reject'; feedback: string; draft: string };
+
+function recordApprovalDecision(
+  config: RunConfig,
+  runDir: string,
+  phase: PhaseDefinition,
+  decision: Omit<ApprovalDecision, 'phase' | 'at'>
+): void {
+  if (!config.approval_decisions) config.approval_decisions = [];
+  config.approval_decisions.push({ phase: phase.id, at: new Date().toISOString(), ...decision });
+  const details = [
+    decision.attempt ? `attempt ${decision.attempt}` : '',
+    decision.warnings !== undefined ? `${decision.warnings} warning(s) after edit` : '',
+    decision.feedback ? `feedback: ${decision.feedback}` : '',
+    decision.via === 'file' ? 'via approvals file' : '',
+  ].filter(Boolean);
+  appendLog(
+    runDir,
+    `Approval ${decision.gate} gate, phase ${phase.id}: ${decision.action}${details.length > 0 ? ` (${details.join('; ')})` : ''}`
+  );
+}
+
+function buildReviewFeedbackSection(feedback: ReviewFeedback[] | undefined): string {
+  if (!feedback || feedback.length === 0) return '';
+  const latest = feedback[feedback.length - 1];
+  return [
+    '',
+    '## Reviewer Feedback (required changes)',
+    'A human reviewer rejected the previous draft of this artifact. Address every point below:',
+    ...feedback.map((entry, index) => `${index + 1}. ${entry.feedback}`),
+    '',
+    'Rejected draft, for reference (revise it rather than starting from scratch):',
+    '<rejected_draft>',
+    trimContextContent('Rejected draft', latest.draft, 30_000),
+    '</rejected_draft>',
+    '',
+  ].join('\n');
+}
+
+function openInEditor(filePath: string): void {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const { spawnSync } = require('child_process');
+  const result = spawnSync(`${editor} ${JSON.stringify(filePath)}`, { stdio: 'inherit', shell: true });
+  if (result.status !== 0) {
+    console.log(`  Editor exited with status ${result.status ?? 'unknown'}.`);
+  }
+}
+
+/**
+ * Review gate for a finished artifact: view it, edit it in $EDITOR (edits
+ * are re-validated), approve, pause, or reject it with feedback, which makes
+ * the caller regenerate it. Every decision is recorded in the run config.
+ */
+async function reviewArtifact(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  attempt: number
+): Promise<ReviewOutcome> {
+  const artifactPath = path.join(artifactsDir, phase.artifactFile!);
+  if (config.approval_mode === 'file') {
+    return reviewArtifactViaFile(phase, config, artifactPath, runDir, attempt);
+  }
+  for (;;) {
+    const answer = (
+      await promptText(
+        `Review Phase ${phase.id} (${phase.name}) artifact (${artifactPath}): ` +
+        '[a]pprove, [v]iew, [e]dit, [r]eject with feedback, [p]ause?'
+      )
+    ).toLowerCase();
+
+    if (answer === '' || answer === 'a' || answer === 'approve') {
+      recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'approve', attempt });
+      return { action: 'approve' };
+    }
+    if (answer === 'v' || answer === 'view') {
+      console.log(`\n${fs.readFileSync(artifactPath, 'utf-8')}`);
+      recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'view', attempt });
+      continue;
+    }
+    if (answer === 'e' || answer === 'edit') {
+      const before = fs.readFileSync(artifactPath, 'utf-8');
+      openInEditor(artifactPath);
+      const edited = fs.readFileSync(artifactPath, 'utf-8');
+      if (edited !== before) {
+        recordArtifactHistory(artifactsDir, runDir, phase, edited, {
+          reason: 'reviewer-edit',
+          detail: `review round ${attempt}`,
+        });
+      }
+      const warnings = validateArtifactContent(phase.id, edited);
+      const gateFailure = getPhaseQualityGateFailure(phase.id, edited);
+      if (gateFailure) warnings.push(gateFailure);
+      if (warnings.length > 0) {
+        log(phase.name, 'Edited artifact has warnings:');
+        for (const warning of warnings) log(phase.name, `  - ${warning}`);
+      } else {
+        log(phase.name, 'Edited artifact passes validation.');
+      }
+      recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'edit', attempt, warnings: warnings.length });
+      continue;
+    }
+    if (answer === 'r' || answer === 'reject') {
+      const feedback = await promptText('What should change? (one line of feedback)');
+      if (!feedback) {
+        console.log('  Feedback is required to reject; choose another action or enter feedback.');
+        continue;
+      }
+      recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'reject', attempt, feedback });
+      return { action: 'reject', feedback, draft: fs.readFileSync(artifactPath, 'utf-8') };
+    }
+    if (answer === 'p' || answer === 'pause') {
+      recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'pause', attempt });
+      log(phase.name, 'Paused at review gate. The artifact is saved but the phase is not marked complete.');
+      return { action: 'pause' };
+    }
+    console.log(`  Unknown choice "${answer}".`);
+  }
+}
+
+function runModeLabel(config: RunConfig, runDir: string): string {
+  if (!config.interactive_mode) return 'auto';
+  return config.approval_mode === 'file' ? `file approvals (${approvalsDir(runDir)})` : 'interactive';
+}
+
+async function awaitFileApproval(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  runDir: string,
+  request: { gate: 'pre-run' | 'review'; artifact?: string; attempt?: number }
+): Promise<FileApprovalResponse> {
+  const dir = approvalsDir(runDir);
+  log(
+    phase.name,
+    `Waiting for ${request.gate} approval: create ${path.join(dir, `${phase.id}.approved`)} ` +
+    `or ${path.join(dir, `${phase.id}.rejected`)} (see ${phase.id}.pending.json)`
+  );
+  appendLog(runDir, `Approval ${request.gate} gate, phase ${phase.id}: waiting for approvals file`);
+  return requestFileApproval(runDir, {
+    run_id: config.run_id,
+    phase: phase.id,
+    phase_name: phase.name,
+    cost_so_far_usd: config.total_cost_usd || 0,
+    ...request,
+  });
+}
+
+/**
+ * File-based review gate. Reviewers may edit the artifact in place before
+ * approving (edits are re-validated); a `.rejected` file with feedback
+ * regenerates it, and one without feedback pauses the run.
+ */
+async function reviewArtifactViaFile(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactPath: string,
+  runDir: string,
+  attempt: number
+): Promise<ReviewOutcome> {
+  const draft = fs.readFileSync(artifactPath, 'utf-8');
+  const response = await awaitFileApproval(phase, config, runDir, { gate: 'review', artifact: artifactPath, attempt });
+  const current = fs.readFileSync(artifactPath, 'utf-8');
+  if (current !== draft) {
+    recordArtifactHistory(path.dirname(artifactPath), runDir, phase, current, {
+      reason: 'reviewer-edit',
+      detail: `review round ${attempt} (approvals file)`,
+    });
+    const warnings = validateArtifactContent(phase.id, current);
+    const gateFailure = getPhaseQualityGateFailure(phase.id, current);
+    if (gateFailure) warnings.push(gateFailure);
+    for (const warning of warnings) log(phase.name, `Edited artifact warning: ${warning}`);
+    recordApprovalDecision(config, runDir, phase, {
+      gate: 'review',
+      action: 'edit',
+      attempt,
+      warnings: warnings.length,
+      via: 'file',
+    });
+  }
+
+  if (response.approved) {
+    recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'approve', attempt, via: 'file' });
+    return { action: 'approve' };
+  }
+  if (response.feedback) {
+    recordApprovalDecision(config, runDir, phase, {
+      gate: 'review',
+      action: 'reject',
+      attempt,
+      feedback: response.feedback,
+      via: 'file',
+    });
+    return { action: 'reject', feedback: response.feedback, draft: current };
+  }
+  recordApprovalDecision(config, runDir, phase, { gate: 'review', action: 'pause', attempt, via: 'file' });
+  log(phase.name, 'Rejected without feedback. The artifact is saved but the phase is not marked complete.');
+  return { action: 'pause' };
+}
+
+// ---------------------------------------------------------------------------
+// Phase Hooks
+// ---------------------------------------------------------------------------
+
+async function runHooksForPhase(
+  stage: HookStage,
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  dryRun: boolean
+): Promise<void> {
+  const hooks = config.phase_hooks?.[phase.id]?.[stage] || [];
+  if (hooks.length === 0) return;
+  if (dryRun) {
+    for (const hook of hooks) {
+      console.log(`  [dry-run] Would run ${stage} hook in ${hook.cwd || 'run'} dir: ${hook.command}`);
+    }
+    return;
+  }
+  log(phase.name, `Running ${hooks.length} ${stage} hook(s)`);
+  await runPhaseHooks(stage, hooks, {
+    runDir,
+    artifactsDir,
+    workspacePath: config.workspace_path,
+    phaseId: phase.id,
+    phaseName: phase.name,
+    // Full output goes to pipeline.log; the console gets the status line.
+    log: (message) => {
+      appendLog(runDir, message);
+      log(phase.name, message.split('\n')[0]);
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Retry Logic
 // ---------------------------------------------------------------------------
 
-function retryAgent(
+function isTransientAgentError(msg: string): boolean {
+  return (
+    msg.includes('timed out') ||
+    msg.includes('ETIMEDOUT') ||
+    msg.includes('ECONNRESET') ||
+    msg.includes('rate limit') ||
+    msg.includes('429') ||
+    msg.includes('503')
+  );
+}
+
+function isMissingEngineError(msg: string): boolean {
+  return msg.includes('ENOENT');
+}
+
+/** An engine session that follow-up prompts can continue. */
+interface AgentSession {
+  engine: Engine;
+  sessionId: string;
+}
+
+/**
+ * Compact follow-up prompt for an existing session. The session already holds
+ * the earlier context, so only what changed since needs to be sent.
+ */
+interface SessionContinuation {
+  session: AgentSession | null;
+  prompt: string;
+}
+
+function agentSession(result: AgentResult): AgentSession | null {
+  return result.sessionId && result.engine ? { engine: result.engine, sessionId: result.sessionId } : null;
+}
+
+/**
+ * Runs an agent with retries on transient errors. When the engine CLI is
+ * missing or retries run out, falls over to the next engine in
+ * ENGINE_FAILOVER; the result then carries `failoverFrom`/`failoverReason`.
+ * When `continuation` names a session of the engine about to run, its compact
+ * prompt continues that session; otherwise (no session, failover to another
+ * engine, or a failed resume) the full prompt starts a fresh one.
+ */
+async function retryAgent(
   prompt: string,
   options: Parameters<typeof runAgent>[1],
   phaseId: string,
-  runDir: string
-): AgentResult {
+  runDir: string,
+  continuation?: SessionContinuation
+): Promise<AgentResult> {
   let lastError: Error | null = null;
-  const sleepArray = new Int32Array(new SharedArrayBuffer(4));
+  const route = resolveEngineRoute(ENGINE_ROUTES, phaseId, options?.engine || 'claude');
+  if (route.selector) {
+    const line =
+      `Routing ${phaseId} to ${route.engine}${route.model ? ` (model ${route.model})` : ''} ` +
+      `via engine route "${route.selector}"`;
+    log(phaseId, line);
+    appendLog(runDir, line);
+  }
+  const agentOptions: Parameters<typeof runAgent>[1] = {
+    ...options,
+    engine: route.engine,
+    ...(route.model ? { model: route.model } : {}),
+    label: phaseId,
+    transcriptDir: path.join(runDir, 'transcripts'),
+    ...(CASSETTE_MODE
+      ? { cassetteDir: path.join(runDir, 'cassettes'), record: CASSETTE_MODE === 'record' }
+      : {}),
+    // Replay keeps config.engine unchanged so engine-specific repair logic matches the recording.
+    ...(CASSETTE_MODE === 'replay' ? { engine: 'replay' } : {}),
+    ...(MOCK_FIXTURE ? { mockFixture: MOCK_FIXTURE } : {}),
+  };
 
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      return runAgent(prompt, options);
-    } catch (err: unknown) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      const msg = lastError.message;
-
-      // Only retry on transient errors
-      const isTransient =
-        msg.includes('timed out') ||
-        msg.includes('ETIMEDOUT') ||
-        msg.includes('ECONNRESET') ||
-        msg.includes('rate limit') ||
-        msg.includes('429') ||
-        msg.includes('503');
-
-      if (!isTransient || attempt >= MAX_RETRIES) {
-        throw lastError;
-      }
+  const primaryEngine = agentOptions.engine || 'claude';
+  // Replayed runs never fail over; the cassettes already record which engine ran.
+  const engineChain = CASSETTE_MODE === 'replay'
+    ? [primaryEngine]
+    : Array.from(new Set([primaryEngine, ...ENGINE_FAILOVER]));
+  let failoverReason = '';
+  let resumeFailed = false;
+
+  for (let engineIndex = 0; engineIndex < engineChain.length; engineIndex++) {
+    const engine = engineChain[engineIndex];
+    // Routed models only apply to the primary engine.
+    const engineOptions = engineIndex === 0
+      ? agentOptions
+      : { ...agentOptions, engine, model: undefined };
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      const session = continuation?.session;
+      // Replay serves whichever prompt was recorded, so it mirrors the recorded resume decision.
+      const resume =
+        !resumeFailed &&
+        !!session &&
+        (CASSETTE_MODE === 'replay' || (session.engine === engine && supportsSessionResume(engine)));
+      try {
+        const result = await runAgent(
+          resume ? continuation!.prompt : prompt,
+          resume ? { ...engineOptions, attempt, resumeSessionId: session!.sessionId } : { ...engineOptions, attempt }
+        );
+        if (engineIndex > 0) {
+          result.failoverFrom = primaryEngine;
+          result.failoverReason = failoverReason;
+        }
+        return result;
+      } catch (err: unknown) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+        const msg = lastError.message;
+        const missingEngine = isMissingEngineError(msg);
+        const isTransient = !missingEngine && isTransientAgentError(msg);
+
+        // A session can expire or be unknown to the CLI; fall back to a fresh session.
+        if (resume && !missingEngine && !isTransient) {
+          resumeFailed = true;
+          log(phaseId, `Continuing session ${session!.sessionId} failed (${msg}). Retrying with full prompt...`);
+          appendLog(runDir, `Phase ${phaseId}: session ${session!.sessionId} could not be continued: ${msg}`);
+          attempt--;
+          continue;
+        }
+
+        if (missingEngine || (isTransient && attempt >= MAX_RETRIES)) {
+          const nextEngine = engineChain[engineIndex + 1];
+          if (!nextEngine) throw lastError;
+          failoverReason = missingEngine
+            ? `${engine} CLI not available (${msg})`
+            : `${engine} failed after ${attempt + 1} attempts (${msg})`;
+          log(phaseId, `Failing over from ${engine} to ${nextEngine}: ${failoverReason}`);
+          appendLog(runDir, `Phase ${phaseId}: failing over from ${engine} to ${nextEngine}: ${failoverReason}`);
+          break;
+        }
+
+        // Only retry on transient errors
+        if (!isTransient) {
+          throw lastError;
+        }
 
-      const delay = RETRY_DELAYS_MS[attempt] || 120_000;
-      const delaySec = Math.round(delay / 1000);
-      log(phaseId, `Attempt ${attempt + 1} failed (${msg}). Retrying in ${delaySec}s...`);
-      appendLog(runDir, `Phase ${phaseId}: attempt ${attempt + 1} failed: ${msg}. Retrying in ${delaySec}s.`);
+        const delay = RETRY_DELAYS_MS[attempt] || 120_000;
+        const delaySec = Math.round(delay / 1000);
+        log(phaseId, `Attempt ${attempt + 1} failed (${msg}). Retrying in ${delaySec}s...`);
+        appendLog(runDir, `Phase ${phaseId}: attempt ${attempt + 1} failed: ${msg}. Retrying in ${delaySec}s.`);
 
-      // Cross-platform synchronous wait between retries.
-      Atomics.wait(sleepArray, 0, 0, delay);
+        await sleep(delay);
+      }
     }
   }
 
@@ -417,6 +1011,8 @@ function logAgentDiagnostics(scope: string, result: AgentResult, runDir: string)
   if (result.outputSource) details.push(`source=${result.outputSource}`);
   if (result.resultSubtype) details.push(`subtype=${result.resultSubtype}`);
   if (result.stopReason) details.push(`stop_reason=${result.stopReason}`);
+  if (result.transcriptFile) details.push(`transcript=${path.relative(runDir, result.transcriptFile)}`);
+  if (result.resumedSessionId) details.push(`continued_session=${result.resumedSessionId}`);
   if (details.length === 0) return;
 
   const line = `${scope} agent diagnostics: ${details.join(' | ')}`;
@@ -439,11 +1035,15 @@ function ensureRunConfigDefaults(config: RunConfig): void {
   if (!config.phase_costs) config.phase_costs = {};
   if (!config.phase_costs_actual) config.phase_costs_actual = {};
   if (!config.phase_costs_estimated) config.phase_costs_estimated = {};
+  if (!config.engine_costs) config.engine_costs = {};
   if (typeof config.total_cost_usd !== 'number') config.total_cost_usd = 0;
   if (typeof config.total_actual_cost_usd !== 'number') config.total_actual_cost_usd = 0;
   if (typeof config.total_estimated_cost_usd !== 'number') config.total_estimated_cost_usd = 0;
   if (typeof config.total_input_tokens !== 'number') config.total_input_tokens = 0;
   if (typeof config.total_output_tokens !== 'number') config.total_output_tokens = 0;
+  if (typeof config.total_cache_read_tokens !== 'number') config.total_cache_read_tokens = 0;
+  if (typeof config.total_cache_write_tokens !== 'number') config.total_cache_write_tokens = 0;
+  if (typeof config.cache_savings_usd !== 'number') config.cache_savings_usd = 0;
   if (typeof config.task_decomposition_events !== 'number') config.task_decomposition_events = 0;
   if (typeof config.dynamic_tasks_added !== 'number') config.dynamic_tasks_added = 0;
   if (!Array.isArray(config.phase10_completed_stages)) {
@@ -459,22 +1059,18 @@ function ensureRunConfigDefaults(config: RunConfig): void {
   }
 }
 
-function sanitizeRate(value: number, fallback: number): number {
-  return Number.isFinite(value) && value >= 0 ? value : fallback;
-}
-
 function computeAgentCost(config: RunConfig, result: AgentResult): CostComputation {
+  // Replayed results keep their recorded engine, so they must not fall through to its estimate.
+  if (result.recordedCostUsd !== undefined) {
+    return { actualUsd: 0, estimatedUsd: 0, effectiveUsd: 0, source: 'none' };
+  }
   const actualUsd = result.costUsd > 0 ? result.costUsd : 0;
   if (actualUsd > 0) {
     return { actualUsd, estimatedUsd: 0, effectiveUsd: actualUsd, source: 'actual' };
   }
 
-  if (config.engine === 'codex' && (result.inputTokens > 0 || result.outputTokens > 0)) {
-    const inputRate = sanitizeRate(CODEX_EST_INPUT_USD_PER_1M, 3);
-    const outputRate = sanitizeRate(CODEX_EST_OUTPUT_USD_PER_1M, 15);
-    const estimatedUsd =
-      (result.inputTokens / 1_000_000) * inputRate +
-      (result.outputTokens / 1_000_000) * outputRate;
+  const estimatedUsd = getEngineAdapter(result.engine || config.engine).estimateCostUsd(result);
+  if (estimatedUsd > 0) {
     return {
       actualUsd: 0,
       estimatedUsd,
@@ -491,6 +1087,8 @@ function trackAgentUsage(config: RunConfig, phaseId: string, result: AgentResult
   const computed = computeAgentCost(config, result);
 
   config.phase_costs![phaseId] = (config.phase_costs![phaseId] || 0) + computed.effectiveUsd;
+  const engine = result.engine || config.engine;
+  config.engine_costs![engine] = (config.engine_costs![engine] || 0) + computed.effectiveUsd;
   config.total_cost_usd = (config.total_cost_usd || 0) + computed.effectiveUsd;
 
   if (computed.actualUsd > 0) {
@@ -508,6 +1106,9 @@ function trackAgentUsage(config: RunConfig, phaseId: string, result: AgentResult
 
   config.total_input_tokens = (config.total_input_tokens || 0) + (result.inputTokens || 0);
   config.total_output_tokens = (config.total_output_tokens || 0) + (result.outputTokens || 0);
+  config.total_cache_read_tokens = (config.total_cache_read_tokens || 0) + (result.cacheReadTokens || 0);
+  config.total_cache_write_tokens = (config.total_cache_write_tokens || 0) + (result.cacheWriteTokens || 0);
+  config.cache_savings_usd = (config.cache_savings_usd || 0) + estimateCacheSavings(result);
 
   return computed;
 }
@@ -520,10 +1121,25 @@ function recordAgentUsage(
   scope: string
 ): void {
   const computed = trackAgentUsage(config, phaseId, result);
+  if (result.failoverFrom && result.engine) {
+    if (!config.engine_failovers) config.engine_failovers = [];
+    config.engine_failovers.push({
+      scope,
+      phase: phaseId,
+      from: result.failoverFrom,
+      to: result.engine,
+      reason: result.failoverReason || '',
+      at: new Date().toISOString(),
+    });
+    const line = `${scope}: completed on failover engine ${result.engine} (primary ${result.failoverFrom})`;
+    log('Failover', line);
+    appendLog(runDir, line);
+  }
   if (computed.source === 'estimated') {
     const line =
-      `${scope}: estimated Codex cost $${computed.estimatedUsd.toFixed(4)} ` +
-      `(input ${result.inputTokens.toLocaleString()} / output ${result.outputTokens.toLocaleString()} tokens)`;
+      `${scope}: estimated ${getEngineAdapter(result.engine || config.engine).displayName} cost $${computed.estimatedUsd.toFixed(4)} ` +
+      `(input ${result.inputTokens.toLocaleString()} / output ${result.outputTokens.toLocaleString()}` +
+      ` / cache read ${(result.cacheReadTokens || 0).toLocaleString()} / cache write ${(result.cacheWriteTokens || 0).toLocaleString()} tokens)`;
     log('Cost', line);
     appendLog(runDir, line);
   }
@@ -559,8 +1175,9 @@ function validatePhasePrerequisites(
   artifactsDir: string,
   phase: PhaseDefinition
 ): void {
+  // Skipped phases count as satisfied; their placeholders say so.
   const incomplete = phase.requiredPhases.filter(
-    (phaseId) => !config.completed_phases.includes(phaseId)
+    (phaseId) => !config.completed_phases.includes(phaseId) && !isPhaseSkipped(phaseId)
   );
   if (incomplete.length > 0) {
     throw new Error(
@@ -570,7 +1187,7 @@ function validatePhasePrerequisites(
   }
 
   const requiredArtifacts = phase.requiredPhases.filter((phaseId) =>
-    ARTIFACT_PHASE_IDS.has(phaseId)
+    Boolean(findPhase(phaseId)?.artifactFile) && !isPhaseSkipped(phaseId)
   );
   validateArtifactsExist(artifactsDir, requiredArtifacts);
 }
@@ -580,7 +1197,7 @@ function validatePhasePrerequisites(
 // ---------------------------------------------------------------------------
 
 function loadTemplateContext(): string {
-  const templateContextPath = path.join(PROMPTS_DIR, 'template_context.md');
+  const templateContextPath = path.join(getPipelineDefinition().promptsDir, 'template_context.md');
   if (fs.existsSync(templateContextPath)) {
     return fs.readFileSync(templateContextPath, 'utf-8');
   }
@@ -601,20 +1218,17 @@ function gatherReplacements(
   replacements['TEMPLATE_CONTEXT'] = loadTemplateContext();
 
   // Previous artifacts — wrapped in boundary markers to mitigate prompt injection
-  const artifactMap: Record<string, string> = {
-    'ARTIFACT_00': '0',
-    'ARTIFACT_01': '1',
-    'ARTIFACT_02': '2',
-    'ARTIFACT_025': '3',
-    'ARTIFACT_03': '4',
-    'ARTIFACT_03B': '5',
-    'ARTIFACT_04': '6',
-    'ARTIFACT_05': '7',
-    'ARTIFACT_06': '8',
-    'ARTIFACT_07C': '11',
-  };
-
-  for (const [placeholder, phaseId] of Object.entries(artifactMap)) {
+  for (const { placeholder, id: phaseId } of getPipelineDefinition().phases) {
+    if (!placeholder) continue;
+    if (isPhaseSkipped(phaseId)) {
+      replacements[placeholder] = SKIPPED_PHASE_CONTENT;
+      replacements[`${placeholder}_JSON`] = SKIPPED_PHASE_CONTENT;
+      continue;
+    }
+    const sidecar = readArtifactSidecar(artifactsDir, phaseId);
+    replacements[`${placeholder}_JSON`] = sidecar === null
+      ? '(not available)'
+      : `<artifact_json phase="${phaseId}">\n${JSON.stringify(sidecar, null, 2)}\n</artifact_json>`;
     try {
       const content = readArtifact(artifactsDir, phaseId);
       // Wrap artifacts in boundary markers to differentiate data from instructions
@@ -641,22 +1255,37 @@ function gatherReplacements(
     replacements['TEST_RESULTS'] = '(no tests run yet)';
   }
 
+  // Requirement coverage (written after Phases 9 and 10, read by the audit)
+  const traceabilityPath = path.join(artifactsDir, TRACEABILITY_MARKDOWN_FILE);
+  replacements['TRACEABILITY'] = fs.existsSync(traceabilityPath)
+    ? fs.readFileSync(traceabilityPath, 'utf-8')
+    : '(not available)';
+
   // Task placeholder (used in phase 9)
   replacements['TASK'] = '(see individual task below)';
 
   return replacements;
 }
 
-// Phases that benefit from web research (library docs, API references, domain knowledge)
-const WEB_SEARCH_PHASES = new Set(['0', '1', '2', '3', '4', '6', '7']);
 const ARTIFACT_ENVELOPE_OPEN = '<artifact_output>';
 const ARTIFACT_ENVELOPE_CLOSE = '</artifact_output>';
 const ARTIFACT_END_MARKER = '<!-- END_ARTIFACT -->';
 
 function buildArtifactOutputContract(phase: PhaseDefinition): string {
+  const sectionLines = phase.requiredSections.length === 0
+    ? []
+    : [
+        'Required sections (each as its own heading, with real content):',
+        ...phase.requiredSections.map((section) => `- ${describeSectionRule(section, phase)}`),
+        ...(phase.forbiddenText.length > 0
+          ? [`Never leave placeholder text such as ${phase.forbiddenText.map((text) => `"${text}"`).join(', ')}.`]
+          : []),
+        '',
+      ];
   return [
     '',
     '## Output Contract (required)',
+    ...sectionLines,
     `Return ONLY the artifact wrapped exactly as:`,
     ARTIFACT_ENVELOPE_OPEN,
     `## ...phase ${phase.id} markdown...`,
@@ -719,7 +1348,7 @@ function hasFatalArtifactWarnings(warnings: string[], engine: Engine): boolean {
     : warnings;
 
   return actionableWarnings.some((warning) =>
-    /Missing expected section|meta-commentary|suspiciously small|no markdown headings|output envelope|end marker/i.test(
+    /Missing expected section|Section rule violation|meta-commentary|suspiciously small|no markdown headings|output envelope|end marker/i.test(
       warning
     )
   );
@@ -802,34 +1431,38 @@ function buildArtifactRepairPrompt(
   ].join('\n');
 }
 
-function getMissingSectionWarnings(warnings: string[]): string[] {
-  const missing: string[] = [];
-  for (const warning of warnings) {
-    const match = warning.match(/Missing expected section "([^"]+)"/i);
-    if (match?.[1]) {
-      missing.push(match[1]);
-    }
-  }
-  return missing;
-}
-
 function buildMissingSectionsPrompt(
   phase: PhaseDefinition,
   baseDocument: string,
-  missingSections: string[]
+  violations: SectionViolation[]
 ): string {
+  const sections = Array.from(new Set(violations.map((violation) => violation.section!)));
+  const missing = sections.filter((section) =>
+    violations.some((violation) => violation.section === section && violation.kind === 'missing')
+  );
   return [
-    `You are filling missing sections for phase ${phase.id}: ${phase.name}.`,
+    `You are fixing sections of the phase ${phase.id} artifact: ${phase.name}.`,
     '',
     'Current artifact (do not rewrite this entire document):',
     '```markdown',
     baseDocument,
     '```',
     '',
-    `Missing required sections: ${missingSections.join(', ')}`,
+    'Sections to write or rewrite:',
+    ...sections.flatMap((section) => [
+      `- ${describeSectionRule(section, phase)}`,
+      ...violations
+        .filter((violation) => violation.section === section)
+        .map((violation) => `  - Problem: ${violation.kind === 'missing' ? 'the section is missing' : `the section ${violation.message}`}`),
+    ]),
     '',
-    'Output only the missing sections as H2 headings with complete content.',
-    'Do not repeat sections that already exist.',
+    'Output only these sections, each under its own heading with complete content.',
+    missing.length === sections.length
+      ? 'Do not repeat sections that already exist.'
+      : 'A section you output replaces the existing section of the same name, including its subsections, so write it in full.',
+    ...(phase.forbiddenText.length > 0
+      ? [`Do not use placeholder text such as ${phase.forbiddenText.map((text) => `"${text}"`).join(', ')}.`]
+      : []),
     'Do not include preamble or closing remarks.',
     'Do not mention files, permissions, tooling limitations, or inability to write files.',
     buildArtifactOutputContract(phase),
@@ -962,10 +1595,8 @@ function parseVitestFailures(checkName: string, output: string): ParsedFailureRe
   return records;
 }
 
-function extractFailureInventory(failedChecks: TestCheckResult[]): {
-  markdown: string;
-  uniqueFailureCount: number;
-} {
+/** Structured failures parsed from failed check output, deduped by file and normalized title. */
+function parseFailureRecords(failedChecks: TestCheckResult[]): ParsedFailureRecord[] {
   const parsed: ParsedFailureRecord[] = [];
   for (const check of failedChecks) {
     const lowerName = check.name.toLowerCase();
@@ -988,7 +1619,14 @@ function extractFailureInventory(failedChecks: TestCheckResult[]): {
     const key = `${record.file}::${record.normalizedTitle}`;
     if (!deduped.has(key)) deduped.set(key, record);
   }
-  const entries = Array.from(deduped.values());
+  return Array.from(deduped.values());
+}
+
+function extractFailureInventory(failedChecks: TestCheckResult[]): {
+  markdown: string;
+  uniqueFailureCount: number;
+} {
+  const entries = parseFailureRecords(failedChecks);
 
   if (entries.length === 0) {
     return {
@@ -1230,22 +1868,521 @@ function buildTestRepairPrompt(
   ].join('\n');
 }
 
-function runArtifactPhase(
-  phase: PhaseDefinition,
-  config: RunConfig,
-  artifactsDir: string,
-  runDir: string,
-  opts: { budgetUsd?: number; dryRun?: boolean }
-): void {
-  log(phase.name, 'Starting...');
-  appendLog(runDir, `Phase ${phase.id} (${phase.name}) started`);
-
-  validatePhasePrerequisites(config, artifactsDir, phase);
+/**
+ * Follow-up to a session that already received a full repair prompt: only the
+ * current failures are sent, since the session holds the product context.
+ */
+function buildTestRepairContinuationPrompt(
+  failedChecks: TestCheckResult[],
+  options: {
+    stageLabel?: string;
+    attempt?: number;
+    maxAttempts?: number;
+    failureDeltaSummary?: string;
+  } = {}
+): string {
+  const failingCheckList = failedChecks
+    .map((check) => `- ${check.name}: \`${check.command}\``)
+    .join('\n');
+  const failureEvidence = failedChecks
+    .map((check) => {
+      const compactEvidence = trimContextContent(
+        `${check.name} failure output`,
+        check.output,
+        TEST_REPAIR_EVIDENCE_MAX_CHARS
+      );
+      return [
+        `### ${check.name}`,
+        `Command: \`${check.command}\``,
+        '```',
+        compactEvidence || '(no output)',
+        '```',
+      ].join('\n');
+    })
+    .join('\n\n');
 
-  // Build prompt
-  const promptPath = path.join(PROMPTS_DIR, phase.promptFile!);
-  if (!fs.existsSync(promptPath)) {
-    throw new Error(`Prompt template not found: ${promptPath}`);
+  return [
+    'Your previous changes were committed and verification was re-run. These checks still fail.',
+    'Continue the same repair: keep the earlier fixes, follow the same rules as before, and resolve the remaining failures.',
+    '',
+    ...(options.stageLabel ? ['## Active Verification Stage', `- ${options.stageLabel}`, ''] : []),
+    ...(typeof options.attempt === 'number' && typeof options.maxAttempts === 'number'
+      ? ['## Repair Attempt', `- Attempt ${options.attempt}/${options.maxAttempts}`, '']
+      : []),
+    '## Failing Checks (must pass)',
+    failingCheckList || '- (none provided)',
+    '',
+    ...(options.failureDeltaSummary
+      ? ['## Failure Delta Vs Previous Attempt', options.failureDeltaSummary, '']
+      : []),
+    '## Remaining Failure Inventory (parsed)',
+    extractFailureInventory(failedChecks).markdown,
+    '',
+    '## Failure Evidence',
+    failureEvidence || '(no failure evidence provided)',
+    '',
+    '## Instructions',
+    '- Re-read any files you changed before editing them again.',
+    '- Run each failing command after your changes and ensure it passes.',
+    '- Output a concise summary including: root cause, files changed, commands run, and final pass status.',
+  ].join('\n');
+}
+
+/**
+ * Keeps `content` as the artifact's next version under artifacts/history.
+ * History is best effort: failures are logged and never fail the phase.
+ */
+function recordArtifactHistory(
+  artifactsDir: string,
+  runDir: string,
+  phase: PhaseDefinition,
+  content: string,
+  entry: { reason: ArtifactChangeReason; detail?: string; scope?: string }
+): void {
+  if (!phase.artifactFile || !content.trim()) return;
+  try {
+    recordArtifactVersion(artifactsDir, phase.artifactFile, content, { phase: phase.id, ...entry });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    appendLog(runDir, `Phase ${phase.id} artifact history not recorded: ${message}`);
+  }
+}
+
+interface ArtifactCandidate {
+  variant: number;
+  result: AgentResult;
+  cleaned: string;
+  warnings: string[];
+}
+
+/**
+ * Generates one artifact candidate: the phase agent call, then the usual
+ * repair and missing-section backfill passes. `scope` labels the calls
+ * (the phase id for the first candidate, "<id>-variant-<k>" for others).
+ */
+async function generateArtifactCandidate(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactPrompt: string,
+  opts: {
+    cwd: string;
+    phaseEngine: Engine;
+    runDir: string;
+    artifactsDir: string;
+    budgetUsd?: number;
+    scope: string;
+    variant: number;
+    /** Why the phase is generating again (re-run, reviewer feedback), for artifact history. */
+    historyNote?: string;
+  }
+): Promise<ArtifactCandidate> {
+  const { cwd, phaseEngine, runDir, artifactsDir, scope } = opts;
+  log(phase.name, `Calling ${phaseEngine}... (running in ${cwd})`);
+  const result = await retryAgent(artifactPrompt, {
+    cwd,
+    engine: config.engine,
+    claudeOutputFormat: config.claude_output_format,
+    timeoutMs: config.timeout_ms,
+    permissions: 'read-only',
+    webSearch: phase.webSearch,
+    maxTurns: phase.maxTurns,
+  }, scope, runDir);
+
+  // Track cost
+  recordAgentUsage(config, phase.id, result, runDir, `Phase ${scope}`);
+  logAgentDiagnostics(`Phase ${scope}`, result, runDir);
+
+  if (!phase.artifactFile) {
+    return { variant: opts.variant, result, cleaned: '', warnings: [] };
+  }
+
+  // Clean and validate artifact
+  let cleaned = cleanArtifact(result.output);
+  recordArtifactHistory(artifactsDir, runDir, phase, cleaned, { reason: 'generated', detail: opts.historyNote, scope });
+  let warnings = [
+    ...artifactEnvelopeWarnings(phase.id, result.output),
+    ...validateArtifactContent(phase.id, cleaned),
+  ];
+  if ((result.stopReason || '').toLowerCase() === 'max_tokens') {
+    warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens.`);
+  }
+
+  if (warnings.length > 0 && shouldRepairArtifact(warnings, cleaned, phaseEngine)) {
+    const maxRepairAttempts =
+      phaseEngine === 'claude'
+        ? MAX_CLAUDE_ARTIFACT_REPAIR_ATTEMPTS
+        : MAX_ARTIFACT_REPAIR_ATTEMPTS;
+    for (let attempt = 1; attempt <= maxRepairAttempts; attempt++) {
+      log(phase.name, `Attempting artifact repair (${attempt}/${maxRepairAttempts})...`);
+      checkBudget(config, opts.budgetUsd, { runDir });
+
+      const repairPrompt = buildArtifactRepairPrompt(phase, cleaned, warnings);
+      const repairResult = await retryAgent(repairPrompt, {
+        cwd,
+        engine: config.engine,
+        claudeOutputFormat: config.claude_output_format,
+        timeoutMs: config.timeout_ms,
+        permissions: 'read-only',
+        webSearch: false,
+        maxTurns: phase.repairMaxTurns,
+      }, `${scope}-repair-${attempt}`, runDir);
+
+      recordAgentUsage(
+        config,
+        phase.id,
+        repairResult,
+        runDir,
+        `Phase ${scope}-repair-${attempt}`
+      );
+      logAgentDiagnostics(`Phase ${scope}-repair-${attempt}`, repairResult, runDir);
+      cleaned = cleanArtifact(repairResult.output);
+      recordArtifactHistory(artifactsDir, runDir, phase, cleaned, {
+        reason: 'repair',
+        detail: warnings.join('; '),
+        scope: `${scope}-repair-${attempt}`,
+      });
+      warnings = [
+        ...artifactEnvelopeWarnings(phase.id, repairResult.output),
+        ...validateArtifactContent(phase.id, cleaned),
+      ];
+      if ((repairResult.stopReason || '').toLowerCase() === 'max_tokens') {
+        warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens during repair.`);
+      }
+
+      if (!shouldRepairArtifact(warnings, cleaned, phaseEngine)) {
+        break;
+      }
+    }
+  }
+
+  const backfill = await backfillArtifactSections(phase, config, cleaned, {
+    cwd,
+    phaseEngine,
+    runDir,
+    artifactsDir,
+    budgetUsd: opts.budgetUsd,
+    scope,
+  });
+  if (backfill.output !== null) {
+    cleaned = backfill.cleaned;
+    warnings = [
+      ...artifactEnvelopeWarnings(phase.id, backfill.output),
+      ...validateArtifactContent(phase.id, cleaned),
+    ];
+  }
+
+  return { variant: opts.variant, result, cleaned, warnings };
+}
+
+/**
+ * Backfills sections that are missing or break their section rules, merging
+ * each supplement into the draft. `output` is the last backfill agent's raw
+ * output, or null when no backfill ran.
+ */
+async function backfillArtifactSections(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  draft: string,
+  opts: { cwd: string; phaseEngine: Engine; runDir: string; artifactsDir: string; budgetUsd?: number; scope: string }
+): Promise<{ cleaned: string; output: string | null }> {
+  const { cwd, phaseEngine, runDir, artifactsDir, scope } = opts;
+  let cleaned = draft;
+  let output: string | null = null;
+  const maxBackfillAttempts =
+    phaseEngine === 'claude' ? MAX_CLAUDE_MISSING_SECTION_BACKFILL_ATTEMPTS : 1;
+  for (let attempt = 1; attempt <= maxBackfillAttempts; attempt++) {
+    const sectionViolations = checkPhaseSections(phase.id, cleaned).filter((violation) => violation.section !== null);
+    if (sectionViolations.length === 0) {
+      break;
+    }
+    const backfillSections = Array.from(new Set(sectionViolations.map((violation) => violation.section!)));
+
+    if (attempt === 1) {
+      log(phase.name, `Backfilling sections: ${backfillSections.join(', ')}`);
+    } else {
+      log(
+        phase.name,
+        `Backfilling sections retry (${attempt}/${maxBackfillAttempts}): ${backfillSections.join(', ')}`
+      );
+    }
+    checkBudget(config, opts.budgetUsd, { runDir });
+
+    const supplementPrompt = buildMissingSectionsPrompt(phase, cleaned, sectionViolations);
+    const supplementResult = await retryAgent(supplementPrompt, {
+      cwd,
+      engine: config.engine,
+      claudeOutputFormat: config.claude_output_format,
+      timeoutMs: config.timeout_ms,
+      permissions: 'read-only',
+      webSearch: false,
+      maxTurns: phase.backfillMaxTurns,
+    }, `${scope}-section-backfill-${attempt}`, runDir);
+
+    recordAgentUsage(
+      config,
+      phase.id,
+      supplementResult,
+      runDir,
+      `Phase ${scope}-section-backfill-${attempt}`
+    );
+    logAgentDiagnostics(`Phase ${scope}-section-backfill-${attempt}`, supplementResult, runDir);
+    const supplement = cleanArtifact(supplementResult.output);
+    if (supplement.length > 0) {
+      cleaned = mergeSectionSupplement(cleaned, supplement, backfillSections, phase);
+      recordArtifactHistory(artifactsDir, runDir, phase, cleaned, {
+        reason: 'section-backfill',
+        detail: sectionViolations.map((violation) => formatSectionViolation(phase.id, violation)).join('; '),
+        scope: `${scope}-section-backfill-${attempt}`,
+      });
+    }
+    output = supplementResult.output;
+  }
+
+  return { cleaned, output };
+}
+
+interface VariantJudgment {
+  winner: number | null;
+  scores: Record<number, number>;
+  reasoning: string;
+}
+
+function buildVariantJudgePrompt(phase: PhaseDefinition, config: RunConfig, candidates: ArtifactCandidate[]): string {
+  const perCandidateChars = Math.floor(VARIANT_JUDGE_CONTEXT_CHAR_LIMIT / candidates.length);
+  const sections = phase.requiredSections.length > 0 ? phase.requiredSections.join(', ') : '(none listed)';
+  return [
+    `You are judging ${candidates.length} candidate versions of the Phase ${phase.id} (${phase.name}) artifact for this app idea:`,
+    '',
+    config.idea,
+    '',
+    'Score each candidate from 0 to 10 against this rubric:',
+    `1. Completeness: covers every required section (${sections}) with real content, not placeholders.`,
+    '2. Specificity: concrete, testable decisions instead of generic advice.',
+    '3. Consistency: no internal contradictions; consistent names, entities and scope.',
+    '4. Fit: serves the idea and the template-based stack without gold-plating.',
+    '5. Actionability: a later phase or engineer could act on it without guessing.',
+    '',
+    'Automated validation warnings are listed per candidate; weigh them, but judge the content itself.',
+    '',
+    ...candidates.flatMap((candidate) => [
+      `<candidate variant="${candidate.variant}">`,
+      `Validation warnings: ${candidate.warnings.length > 0 ? candidate.warnings.join('; ') : 'none'}`,
+      '',
+      trimContextContent(`Variant ${candidate.variant}`, candidate.cleaned, perCandidateChars),
+      '</candidate>',
+      '',
+    ]),
+    'Respond with ONLY a JSON object, no other text:',
+    '{"winner": <variant number>, "scores": {"<variant>": <score>, ...}, "reasoning": "<why the winner is best and what the others lack>"}',
+  ].join('\n');
+}
+
+function parseVariantJudgment(output: string, variants: number[]): VariantJudgment {
+  const match = output.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return { winner: null, scores: {}, reasoning: 'Judge returned no JSON verdict.' };
+  }
+  try {
+    const raw = JSON.parse(match[0]) as { winner?: unknown; scores?: Record<string, unknown>; reasoning?: unknown };
+    const scores: Record<number, number> = {};
+    for (const [key, value] of Object.entries(raw.scores || {})) {
+      const variant = Number(key);
+      if (variants.includes(variant) && typeof value === 'number' && Number.isFinite(value)) {
+        scores[variant] = value;
+      }
+    }
+    const winner = Number(raw.winner);
+    return {
+      winner: variants.includes(winner) ? winner : null,
+      scores,
+      reasoning: typeof raw.reasoning === 'string' ? raw.reasoning.trim() : '',
+    };
+  } catch {
+    return { winner: null, scores: {}, reasoning: 'Judge verdict was not valid JSON.' };
+  }
+}
+
+/**
+ * Picks the best of several artifact candidates. Candidates with fatal
+ * validation warnings are out; the rest are scored by a judge agent against
+ * a rubric, minus one point per validation warning. Losing candidates are
+ * saved next to the artifact as `<name>.variant-<k>.md`.
+ */
+async function selectArtifactVariant(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  candidates: ArtifactCandidate[],
+  opts: { cwd: string; phaseEngine: Engine; runDir: string; artifactsDir: string; budgetUsd?: number }
+): Promise<ArtifactCandidate> {
+  const { runDir } = opts;
+  const byWarnings = (a: ArtifactCandidate, b: ArtifactCandidate): number => a.warnings.length - b.warnings.length;
+  const eligible = candidates.filter((candidate) => !hasFatalArtifactWarnings(candidate.warnings, opts.phaseEngine));
+  let winner = [...(eligible.length > 0 ? eligible : candidates)].sort(byWarnings)[0];
+
+  if (eligible.length > 1) {
+    checkBudget(config, opts.budgetUsd, { runDir });
+    const judgePrompt = buildVariantJudgePrompt(phase, config, eligible);
+    const judgeResult = await retryAgent(judgePrompt, {
+      cwd: opts.cwd,
+      engine: config.engine,
+      claudeOutputFormat: config.claude_output_format,
+      timeoutMs: config.timeout_ms,
+      permissions: 'read-only',
+      webSearch: false,
+      maxTurns: phase.repairMaxTurns,
+    }, `${phase.id}-judge`, runDir);
+    recordAgentUsage(config, phase.id, judgeResult, runDir, `Phase ${phase.id}-judge`);
+    logAgentDiagnostics(`Phase ${phase.id}-judge`, judgeResult, runDir);
+
+    const judgment = parseVariantJudgment(judgeResult.output, eligible.map((candidate) => candidate.variant));
+    const total = (candidate: ArtifactCandidate): number =>
+      (judgment.scores[candidate.variant] ?? 0) - candidate.warnings.length;
+    const ranked = [...eligible].sort(
+      (a, b) =>
+        total(b) - total(a) ||
+        Number(b.variant === judgment.winner) - Number(a.variant === judgment.winner) ||
+        a.variant - b.variant
+    );
+    if (Object.keys(judgment.scores).length > 0 || judgment.winner !== null) {
+      winner = ranked[0];
+    }
+    const scoreLine = eligible
+      .map(
+        (candidate) =>
+          `variant ${candidate.variant}: judge ${judgment.scores[candidate.variant] ?? 'n/a'}, ` +
+          `${candidate.warnings.length} warning(s)`
+      )
+      .join(' | ');
+    log(phase.name, `Variant scores: ${scoreLine}`);
+    appendLog(runDir, `Phase ${phase.id} variant scores: ${scoreLine}`);
+    appendLog(runDir, `Phase ${phase.id} judge reasoning: ${judgment.reasoning || '(none given)'}`);
+  }
+
+  log(phase.name, `Selected variant ${winner.variant} of ${candidates.length}`);
+  appendLog(runDir, `Phase ${phase.id} selected variant ${winner.variant} of ${candidates.length}`);
+  for (const candidate of candidates) {
+    if (candidate === winner || !phase.artifactFile) continue;
+    const variantPath = path.join(
+      opts.artifactsDir,
+      phase.artifactFile.replace(/\.md$/, `.variant-${candidate.variant}.md`)
+    );
+    fs.writeFileSync(variantPath, candidate.cleaned + '\n');
+    log(phase.name, `Saved losing variant ${candidate.variant}: ${variantPath}`);
+  }
+  return winner;
+}
+
+function buildSidecarPrompt(
+  phase: PhaseDefinition,
+  artifact: string,
+  schema: JsonSchema,
+  previous?: { output: string; errors: string[] }
+): string {
+  return [
+    `Extract structured data from the Phase ${phase.id} (${phase.name}) artifact below into one JSON document.`,
+    '',
+    'The JSON must conform to this JSON Schema:',
+    '```json',
+    JSON.stringify(schema, null, 2),
+    '```',
+    '',
+    'Rules:',
+    '- Take every value from the artifact; do not invent entries it does not contain.',
+    '- Keep identifiers (story IDs, task IDs, endpoint paths) exactly as written in the artifact.',
+    '- Use empty arrays for lists the artifact does not cover, unless the schema requires items.',
+    ...(previous
+      ? [
+          '',
+          'Your previous answer failed validation. Fix every error:',
+          ...previous.errors.map((error) => `- ${error}`),
+          '',
+          '<previous_answer>',
+          trimContextContent('Previous answer', previous.output, 20_000),
+          '</previous_answer>',
+        ]
+      : []),
+    '',
+    `<artifact phase="${phase.id}">`,
+    trimContextContent(phase.name, artifact, SIDECAR_ARTIFACT_CHAR_LIMIT),
+    '</artifact>',
+    '',
+    '## Output Contract (required)',
+    'Return ONLY the JSON wrapped exactly as:',
+    SIDECAR_OPEN,
+    '{ ... }',
+    SIDECAR_CLOSE,
+  ].join('\n');
+}
+
+/**
+ * Generates and validates the JSON sidecar for a finished artifact, with one
+ * repair pass on schema errors. Only a valid sidecar is written; otherwise
+ * any earlier one is removed and the phase continues with a warning.
+ */
+async function generateArtifactSidecar(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  opts: { cwd: string; budgetUsd?: number }
+): Promise<void> {
+  const schema = loadSidecarSchema(phase);
+  const artifact = fs.readFileSync(path.join(artifactsDir, phase.artifactFile!), 'utf-8');
+  let previous: { output: string; errors: string[] } | undefined;
+
+  for (let attempt = 0; attempt <= MAX_SIDECAR_REPAIR_ATTEMPTS; attempt++) {
+    const scope = attempt === 0 ? `${phase.id}-sidecar` : `${phase.id}-sidecar-repair-${attempt}`;
+    log(phase.name, attempt === 0 ? 'Extracting JSON sidecar...' : `Repairing JSON sidecar (${attempt}/${MAX_SIDECAR_REPAIR_ATTEMPTS})...`);
+    checkBudget(config, opts.budgetUsd, { runDir });
+    const result = await retryAgent(buildSidecarPrompt(phase, artifact, schema, previous), {
+      cwd: opts.cwd,
+      engine: config.engine,
+      claudeOutputFormat: config.claude_output_format,
+      timeoutMs: config.timeout_ms,
+      permissions: 'read-only',
+      webSearch: false,
+      maxTurns: phase.backfillMaxTurns,
+    }, scope, runDir);
+    recordAgentUsage(config, phase.id, result, runDir, `Phase ${scope}`);
+    logAgentDiagnostics(`Phase ${scope}`, result, runDir);
+
+    const parsed = parseSidecarOutput(result.output);
+    const errors = 'error' in parsed ? [parsed.error] : validateSidecar(phase, parsed.value);
+    if ('value' in parsed && errors.length === 0) {
+      const sidecarPath = writeArtifactSidecar(artifactsDir, phase, parsed.value);
+      log(phase.name, `Sidecar saved: ${sidecarPath}`);
+      appendLog(runDir, `Phase ${phase.id} sidecar saved (${phase.sidecarSchema})`);
+      return;
+    }
+    appendLog(runDir, `Phase ${phase.id} sidecar invalid (${scope}): ${errors.join('; ')}`);
+    previous = { output: result.output, errors };
+  }
+
+  fs.rmSync(path.join(artifactsDir, sidecarFileName(phase)), { force: true });
+  log(phase.name, `Warning: JSON sidecar still invalid after repair; no sidecar saved. Errors: ${previous!.errors.join('; ')}`);
+}
+
+/**
+ * Runs an artifact phase. With `review` set (approval-gated phases in
+ * interactive mode) the finished artifact goes through a review gate;
+ * returns 'stop' when the reviewer pauses the pipeline there.
+ */
+async function runArtifactPhase(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  opts: { budgetUsd?: number; dryRun?: boolean; review?: boolean; reviewFeedback?: ReviewFeedback[] }
+): Promise<'continue' | 'stop'> {
+  log(phase.name, opts.reviewFeedback?.length ? 'Regenerating with reviewer feedback...' : 'Starting...');
+  appendLog(runDir, `Phase ${phase.id} (${phase.name}) started`);
+
+  validatePhasePrerequisites(config, artifactsDir, phase);
+
+  // Build prompt
+  const promptPath = phasePromptPath(phase);
+  if (!fs.existsSync(promptPath)) {
+    throw new Error(`Prompt template not found: ${promptPath}`);
   }
 
   const replacements = compactPhaseReplacements(
@@ -1255,7 +2392,7 @@ function runArtifactPhase(
   );
   const fullPrompt = buildPrompt(promptPath, replacements);
   const artifactPrompt = capPromptLength(
-    `${fullPrompt}\n${buildArtifactOutputContract(phase)}`,
+    `${fullPrompt}\n${buildReviewFeedbackSection(opts.reviewFeedback)}${buildArtifactOutputContract(phase)}`,
     140_000,
     `Phase ${phase.id} artifact`,
     runDir
@@ -1272,7 +2409,7 @@ function runArtifactPhase(
     console.log(`  [dry-run] Phase ${phase.id} prompt: ${estimatedTokens.toLocaleString()} tokens`);
     console.log(`  [dry-run] Prompt file: ${promptPath}`);
     console.log(`  [dry-run] Required phases: ${phase.requiredPhases.join(', ') || 'none'}`);
-    return;
+    return 'continue';
   }
 
   // Check budget before calling agent
@@ -1285,121 +2422,53 @@ function runArtifactPhase(
     );
   }
 
-  log(phase.name, `Calling ${config.engine}... (running in ${cwd})`);
-  const result = retryAgent(artifactPrompt, {
-    cwd,
-    engine: config.engine,
-    claudeOutputFormat: config.claude_output_format,
-    timeoutMs: config.timeout_ms,
-    permissions: 'read-only',
-    webSearch: WEB_SEARCH_PHASES.has(phase.id),
-    maxTurns: phase.needsRepo ? 15 : 12,
-  }, phase.id, runDir);
-
-  // Track cost
-  recordAgentUsage(config, phase.id, result, runDir, `Phase ${phase.id}`);
-  logAgentDiagnostics(`Phase ${phase.id}`, result, runDir);
-
-  // Clean and validate artifact
-  if (phase.artifactFile) {
-    let cleaned = cleanArtifact(result.output);
-    let warnings = [
-      ...artifactEnvelopeWarnings(phase.id, result.output),
-      ...validateArtifactContent(phase.id, cleaned),
-    ];
-    if ((result.stopReason || '').toLowerCase() === 'max_tokens') {
-      warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens.`);
+  // Engine-specific repair limits follow the engine this phase is routed to.
+  const phaseEngine = resolveEngineRoute(config.engine_routes, phase.id, config.engine).engine;
+  const variantCount = phase.variants ? Math.max(1, config.artifact_variants || 1) : 1;
+  if (variantCount > 1) {
+    log(phase.name, `Generating ${variantCount} candidate artifacts...`);
+  }
+  const historyNote = opts.reviewFeedback?.length
+    ? `reviewer feedback (round ${opts.reviewFeedback.length})`
+    : phase.artifactFile && fs.existsSync(path.join(artifactsDir, phase.artifactFile))
+      ? 're-run'
+      : undefined;
+  const candidates: ArtifactCandidate[] = [];
+  for (let variant = 1; variant <= variantCount; variant++) {
+    if (variant > 1) {
+      log(phase.name, `Generating variant ${variant}/${variantCount}...`);
+      checkBudget(config, opts.budgetUsd, { runDir });
     }
-
-    if (warnings.length > 0 && shouldRepairArtifact(warnings, cleaned, config.engine)) {
-      const maxRepairAttempts =
-        config.engine === 'claude'
-          ? MAX_CLAUDE_ARTIFACT_REPAIR_ATTEMPTS
-          : MAX_ARTIFACT_REPAIR_ATTEMPTS;
-      for (let attempt = 1; attempt <= maxRepairAttempts; attempt++) {
-        log(phase.name, `Attempting artifact repair (${attempt}/${maxRepairAttempts})...`);
-        checkBudget(config, opts.budgetUsd, { runDir });
-
-        const repairPrompt = buildArtifactRepairPrompt(phase, cleaned, warnings);
-        const repairResult = retryAgent(repairPrompt, {
+    candidates.push(
+      await generateArtifactCandidate(phase, config, artifactPrompt, {
+        cwd,
+        phaseEngine,
+        runDir,
+        artifactsDir,
+        budgetUsd: opts.budgetUsd,
+        scope: variant === 1 ? phase.id : `${phase.id}-variant-${variant}`,
+        variant,
+        historyNote: [historyNote, variantCount > 1 ? `variant ${variant}/${variantCount}` : '']
+          .filter(Boolean)
+          .join(', ') || undefined,
+      })
+    );
+  }
+  const chosen =
+    candidates.length > 1
+      ? await selectArtifactVariant(phase, config, candidates, {
           cwd,
-          engine: config.engine,
-          claudeOutputFormat: config.claude_output_format,
-          timeoutMs: config.timeout_ms,
-          permissions: 'read-only',
-          webSearch: false,
-          maxTurns: phase.needsRepo ? 10 : 8,
-        }, `${phase.id}-repair-${attempt}`, runDir);
-
-        recordAgentUsage(
-          config,
-          phase.id,
-          repairResult,
+          phaseEngine,
           runDir,
-          `Phase ${phase.id}-repair-${attempt}`
-        );
-        logAgentDiagnostics(`Phase ${phase.id}-repair-${attempt}`, repairResult, runDir);
-        cleaned = cleanArtifact(repairResult.output);
-        warnings = [
-          ...artifactEnvelopeWarnings(phase.id, repairResult.output),
-          ...validateArtifactContent(phase.id, cleaned),
-        ];
-        if ((repairResult.stopReason || '').toLowerCase() === 'max_tokens') {
-          warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens during repair.`);
-        }
-
-        if (!shouldRepairArtifact(warnings, cleaned, config.engine)) {
-          break;
-        }
-      }
-    }
-
-    const maxBackfillAttempts =
-      config.engine === 'claude' ? MAX_CLAUDE_MISSING_SECTION_BACKFILL_ATTEMPTS : 1;
-    for (let attempt = 1; attempt <= maxBackfillAttempts; attempt++) {
-      const missingSections = getMissingSectionWarnings(warnings);
-      if (missingSections.length === 0) {
-        break;
-      }
-
-      if (attempt === 1) {
-        log(phase.name, `Backfilling missing sections: ${missingSections.join(', ')}`);
-      } else {
-        log(
-          phase.name,
-          `Backfilling missing sections retry (${attempt}/${maxBackfillAttempts}): ${missingSections.join(', ')}`
-        );
-      }
-      checkBudget(config, opts.budgetUsd, { runDir });
-
-      const supplementPrompt = buildMissingSectionsPrompt(phase, cleaned, missingSections);
-      const supplementResult = retryAgent(supplementPrompt, {
-        cwd,
-        engine: config.engine,
-        claudeOutputFormat: config.claude_output_format,
-        timeoutMs: config.timeout_ms,
-        permissions: 'read-only',
-        webSearch: false,
-        maxTurns: phase.needsRepo ? 8 : 6,
-      }, `${phase.id}-section-backfill-${attempt}`, runDir);
+          artifactsDir,
+          budgetUsd: opts.budgetUsd,
+        })
+      : candidates[0];
+  const result = chosen.result;
 
-      recordAgentUsage(
-        config,
-        phase.id,
-        supplementResult,
-        runDir,
-        `Phase ${phase.id}-section-backfill-${attempt}`
-      );
-      logAgentDiagnostics(`Phase ${phase.id}-section-backfill-${attempt}`, supplementResult, runDir);
-      const supplement = cleanArtifact(supplementResult.output);
-      if (supplement.length > 0) {
-        cleaned = `${cleaned.trim()}\n\n${supplement.trim()}\n`;
-      }
-      warnings = [
-        ...artifactEnvelopeWarnings(phase.id, supplementResult.output),
-        ...validateArtifactContent(phase.id, cleaned),
-      ];
-    }
+  if (phase.artifactFile) {
+    let cleaned = chosen.cleaned;
+    let warnings = chosen.warnings;
 
     if (warnings.length > 0) {
       log(phase.name, 'Artifact warnings:');
@@ -1409,7 +2478,7 @@ function runArtifactPhase(
       appendLog(runDir, `Phase ${phase.id} warnings: ${warnings.join('; ')}`);
     }
 
-    if (hasFatalArtifactWarnings(warnings, config.engine)) {
+    if (hasFatalArtifactWarnings(warnings, phaseEngine)) {
       const msg =
         `Phase ${phase.id} produced invalid artifact after repair attempts. ` +
         `Warnings: ${warnings.join('; ')}`;
@@ -1418,6 +2487,12 @@ function runArtifactPhase(
     }
 
     const artifactPath = path.join(artifactsDir, phase.artifactFile);
+    if (candidates.length > 1) {
+      recordArtifactHistory(artifactsDir, runDir, phase, cleaned, {
+        reason: 'variant-selected',
+        detail: `variant ${chosen.variant} of ${candidates.length}`,
+      });
+    }
     fs.writeFileSync(artifactPath, cleaned + '\n');
     log(phase.name, `Artifact saved: ${artifactPath}`);
 
@@ -1430,6 +2505,7 @@ function runArtifactPhase(
       fs.existsSync(config.workspace_path)
     ) {
       const phase11RepairNotes: string[] = [];
+      let remediationSession: AgentSession | null = null;
       for (let attempt = 1; attempt <= MAX_PHASE11_UX_REPAIR_ATTEMPTS; attempt++) {
         log(
           phase.name,
@@ -1449,7 +2525,7 @@ function runArtifactPhase(
           `Phase 11 UX remediation ${attempt}`,
           runDir
         );
-        const remediationResult = retryAgent(
+        const remediationResult = await retryAgent(
           remediationPrompt,
           {
             cwd: config.workspace_path,
@@ -1460,8 +2536,19 @@ function runArtifactPhase(
             timeoutMs: config.timeout_ms,
           },
           `11-ux-remediation-${attempt}`,
-          runDir
+          runDir,
+          {
+            session: remediationSession,
+            prompt: buildRemediationContinuationPrompt(
+              '11',
+              qualityGateFailure || 'Phase 11 verdict failed.',
+              attempt,
+              MAX_PHASE11_UX_REPAIR_ATTEMPTS,
+              phase11RepairNotes
+            ),
+          }
         );
+        remediationSession = agentSession(remediationResult) || remediationSession;
         recordAgentUsage(config, phase.id, remediationResult, runDir, `Phase 11-ux-remediation-${attempt}`);
         logAgentDiagnostics(`Phase 11-ux-remediation-${attempt}`, remediationResult, runDir);
 
@@ -1507,7 +2594,7 @@ function runArtifactPhase(
           continue;
         }
 
-        const reevaluationResult = retryAgent(
+        const reevaluationResult = await retryAgent(
           artifactPrompt,
           {
             cwd,
@@ -1515,8 +2602,8 @@ function runArtifactPhase(
             claudeOutputFormat: config.claude_output_format,
             timeoutMs: config.timeout_ms,
             permissions: 'read-only',
-            webSearch: WEB_SEARCH_PHASES.has(phase.id),
-            maxTurns: phase.needsRepo ? 15 : 12,
+            webSearch: phase.webSearch,
+            maxTurns: phase.maxTurns,
           },
           `11-reevaluate-${attempt}`,
           runDir
@@ -1532,13 +2619,18 @@ function runArtifactPhase(
         if ((reevaluationResult.stopReason || '').toLowerCase() === 'max_tokens') {
           warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens during reevaluation.`);
         }
-        if (hasFatalArtifactWarnings(warnings, config.engine)) {
+        if (hasFatalArtifactWarnings(warnings, phaseEngine)) {
           const note = `Attempt ${attempt}: reevaluated artifact still has fatal warnings (${warnings.join('; ')}).`;
           phase11RepairNotes.push(note);
           appendLog(runDir, `Phase 11 remediation note: ${note}`);
           continue;
         }
 
+        recordArtifactHistory(artifactsDir, runDir, phase, cleaned, {
+          reason: 'remediation',
+          detail: `UX remediation attempt ${attempt}`,
+          scope: `11-reevaluate-${attempt}`,
+        });
         fs.writeFileSync(artifactPath, cleaned + '\n');
         log(phase.name, `Artifact updated after UX remediation attempt ${attempt}: ${artifactPath}`);
 
@@ -1560,8 +2652,11 @@ function runArtifactPhase(
     ) {
       const workspacePath = config.workspace_path;
       const phase12RepairNotes: string[] = [];
-      const phase11Definition = PHASES.find((candidate) => candidate.id === '11');
-      if (!phase11Definition?.promptFile || !phase11Definition.artifactFile) {
+      const phase11Definition = findPhase('11');
+      if (
+        !phase11Definition ||
+        (!isPhaseSkipped(phase11Definition.id) && (!phase11Definition.promptFile || !phase11Definition.artifactFile))
+      ) {
         throw new Error('Phase 12 remediation requires Phase 11 prompt/artifact definitions.');
       }
       const phase10ArtifactPath = path.join(artifactsDir, '07b_test_results.md');
@@ -1626,6 +2721,8 @@ function runArtifactPhase(
         appendLog(runDir, `Phase 12 remediation note: ${baselineNote}`);
       }
 
+      // Audit remediations and their verification repairs share one session where supported.
+      let remediationSession: AgentSession | null = null;
       for (let attempt = 1; attempt <= MAX_PHASE12_AUDIT_REPAIR_ATTEMPTS; attempt++) {
         const attemptStartSha = getGitHeadSha(workspacePath);
         log(
@@ -1648,7 +2745,7 @@ function runArtifactPhase(
           runDir
         );
 
-        const remediationResult = retryAgent(
+        const remediationResult = await retryAgent(
           remediationPrompt,
           {
             cwd: workspacePath,
@@ -1659,8 +2756,19 @@ function runArtifactPhase(
             timeoutMs: config.timeout_ms,
           },
           `12-audit-remediation-${attempt}`,
-          runDir
+          runDir,
+          {
+            session: remediationSession,
+            prompt: buildRemediationContinuationPrompt(
+              '12',
+              qualityGateFailure || 'Phase 12 readiness failed.',
+              attempt,
+              MAX_PHASE12_AUDIT_REPAIR_ATTEMPTS,
+              phase12RepairNotes
+            ),
+          }
         );
+        remediationSession = agentSession(remediationResult) || remediationSession;
         recordAgentUsage(
           config,
           phase.id,
@@ -1747,7 +2855,7 @@ function runArtifactPhase(
               `Phase 12 verification stabilization ${attempt}.${verificationRepairAttempt}`,
               runDir
             );
-            const verificationRepairResult = retryAgent(
+            const verificationRepairResult = await retryAgent(
               repairPrompt,
               {
                 cwd: workspacePath,
@@ -1758,8 +2866,18 @@ function runArtifactPhase(
                 timeoutMs: config.timeout_ms,
               },
               `12-verification-repair-${attempt}-${verificationRepairAttempt}`,
-              runDir
+              runDir,
+              {
+                session: remediationSession,
+                prompt: buildTestRepairContinuationPrompt(postRepairFailedChecks, {
+                  stageLabel: `Phase 12 post-remediation verification (attempt ${attempt})`,
+                  attempt: verificationRepairAttempt,
+                  maxAttempts: MAX_PHASE12_VERIFICATION_REPAIR_ATTEMPTS,
+                  failureDeltaSummary,
+                }),
+              }
             );
+            remediationSession = agentSession(verificationRepairResult) || remediationSession;
             recordAgentUsage(
               config,
               phase.id,
@@ -1847,70 +2965,73 @@ function runArtifactPhase(
           continue;
         }
 
-        const phase11PromptPath = path.join(PROMPTS_DIR, phase11Definition.promptFile);
-        const phase11Replacements = compactPhaseReplacements(
-          phase11Definition.id,
-          gatherReplacements(config, phase11Definition, artifactsDir),
-          runDir
-        );
-        const phase11Prompt = capPromptLength(
-          `${buildPrompt(phase11PromptPath, phase11Replacements)}\n${buildArtifactOutputContract(phase11Definition)}`,
-          140_000,
-          `Phase 11 reevaluation for Phase 12 remediation ${attempt}`,
-          runDir
-        );
-        const phase11ReevaluationResult = retryAgent(
-          phase11Prompt,
-          {
-            cwd: workspacePath,
-            engine: config.engine,
-            claudeOutputFormat: config.claude_output_format,
-            timeoutMs: config.timeout_ms,
-            permissions: 'read-only',
-            webSearch: WEB_SEARCH_PHASES.has(phase11Definition.id),
-            maxTurns: phase11Definition.needsRepo ? 15 : 12,
-          },
-          `11-reevaluate-for-12-${attempt}`,
-          runDir
-        );
-        recordAgentUsage(
-          config,
-          phase.id,
-          phase11ReevaluationResult,
-          runDir,
-          `Phase 11-reevaluate-for-12-${attempt}`
-        );
-        logAgentDiagnostics(
-          `Phase 11-reevaluate-for-12-${attempt}`,
-          phase11ReevaluationResult,
-          runDir
-        );
-
-        const phase11Cleaned = cleanArtifact(phase11ReevaluationResult.output);
-        const phase11Warnings = [
-          ...artifactEnvelopeWarnings(phase11Definition.id, phase11ReevaluationResult.output),
-          ...validateArtifactContent(phase11Definition.id, phase11Cleaned),
-        ];
-        if ((phase11ReevaluationResult.stopReason || '').toLowerCase() === 'max_tokens') {
-          phase11Warnings.push(
-            `Phase ${phase11Definition.id}: Model stopped due to max_tokens during reevaluation.`
+        // A skipped Phase 11 keeps its placeholder; remediation goes straight to the Phase 12 re-evaluation.
+        if (!isPhaseSkipped(phase11Definition.id)) {
+          const phase11PromptPath = phasePromptPath(phase11Definition);
+          const phase11Replacements = compactPhaseReplacements(
+            phase11Definition.id,
+            gatherReplacements(config, phase11Definition, artifactsDir),
+            runDir
+          );
+          const phase11Prompt = capPromptLength(
+            `${buildPrompt(phase11PromptPath, phase11Replacements)}\n${buildArtifactOutputContract(phase11Definition)}`,
+            140_000,
+            `Phase 11 reevaluation for Phase 12 remediation ${attempt}`,
+            runDir
+          );
+          const phase11ReevaluationResult = await retryAgent(
+            phase11Prompt,
+            {
+              cwd: workspacePath,
+              engine: config.engine,
+              claudeOutputFormat: config.claude_output_format,
+              timeoutMs: config.timeout_ms,
+              permissions: 'read-only',
+              webSearch: phase11Definition.webSearch,
+              maxTurns: phase11Definition.maxTurns,
+            },
+            `11-reevaluate-for-12-${attempt}`,
+            runDir
+          );
+          recordAgentUsage(
+            config,
+            phase.id,
+            phase11ReevaluationResult,
+            runDir,
+            `Phase 11-reevaluate-for-12-${attempt}`
+          );
+          logAgentDiagnostics(
+            `Phase 11-reevaluate-for-12-${attempt}`,
+            phase11ReevaluationResult,
+            runDir
           );
-        }
-        if (hasFatalArtifactWarnings(phase11Warnings, config.engine)) {
-          const note = `Attempt ${attempt}: Phase 11 reevaluation had fatal artifact warnings (${phase11Warnings.join('; ')}).`;
-          phase12RepairNotes.push(note);
-          appendLog(runDir, `Phase 12 remediation note: ${note}`);
-          continue;
-        }
 
-        const phase11ArtifactPath = path.join(artifactsDir, phase11Definition.artifactFile);
-        fs.writeFileSync(phase11ArtifactPath, phase11Cleaned + '\n');
-        const phase11GateFailure = getPhaseQualityGateFailure(phase11Definition.id, phase11Cleaned);
-        if (phase11GateFailure) {
-          const note = `Attempt ${attempt}: Phase 11 reevaluation still failing (${phase11GateFailure}).`;
-          phase12RepairNotes.push(note);
-          appendLog(runDir, `Phase 12 remediation note: ${note}`);
-          continue;
+          const phase11Cleaned = cleanArtifact(phase11ReevaluationResult.output);
+          const phase11Warnings = [
+            ...artifactEnvelopeWarnings(phase11Definition.id, phase11ReevaluationResult.output),
+            ...validateArtifactContent(phase11Definition.id, phase11Cleaned),
+          ];
+          if ((phase11ReevaluationResult.stopReason || '').toLowerCase() === 'max_tokens') {
+            phase11Warnings.push(
+              `Phase ${phase11Definition.id}: Model stopped due to max_tokens during reevaluation.`
+            );
+          }
+          if (hasFatalArtifactWarnings(phase11Warnings, phaseEngine)) {
+            const note = `Attempt ${attempt}: Phase 11 reevaluation had fatal artifact warnings (${phase11Warnings.join('; ')}).`;
+            phase12RepairNotes.push(note);
+            appendLog(runDir, `Phase 12 remediation note: ${note}`);
+            continue;
+          }
+
+          const phase11ArtifactPath = path.join(artifactsDir, phase11Definition.artifactFile!);
+          fs.writeFileSync(phase11ArtifactPath, phase11Cleaned + '\n');
+          const phase11GateFailure = getPhaseQualityGateFailure(phase11Definition.id, phase11Cleaned);
+          if (phase11GateFailure) {
+            const note = `Attempt ${attempt}: Phase 11 reevaluation still failing (${phase11GateFailure}).`;
+            phase12RepairNotes.push(note);
+            appendLog(runDir, `Phase 12 remediation note: ${note}`);
+            continue;
+          }
         }
 
         const phase12Replacements = compactPhaseReplacements(
@@ -1924,7 +3045,7 @@ function runArtifactPhase(
           `Phase 12 reevaluation ${attempt}`,
           runDir
         );
-        const reevaluationResult = retryAgent(
+        const reevaluationResult = await retryAgent(
           phase12Prompt,
           {
             cwd: workspacePath,
@@ -1932,8 +3053,8 @@ function runArtifactPhase(
             claudeOutputFormat: config.claude_output_format,
             timeoutMs: config.timeout_ms,
             permissions: 'read-only',
-            webSearch: WEB_SEARCH_PHASES.has(phase.id),
-            maxTurns: phase.needsRepo ? 15 : 12,
+            webSearch: phase.webSearch,
+            maxTurns: phase.maxTurns,
           },
           `12-reevaluate-${attempt}`,
           runDir
@@ -1955,13 +3076,18 @@ function runArtifactPhase(
         if ((reevaluationResult.stopReason || '').toLowerCase() === 'max_tokens') {
           warnings.push(`Phase ${phase.id}: Model stopped due to max_tokens during reevaluation.`);
         }
-        if (hasFatalArtifactWarnings(warnings, config.engine)) {
+        if (hasFatalArtifactWarnings(warnings, phaseEngine)) {
           const note = `Attempt ${attempt}: reevaluated artifact still has fatal warnings (${warnings.join('; ')}).`;
           phase12RepairNotes.push(note);
           appendLog(runDir, `Phase 12 remediation note: ${note}`);
           continue;
         }
 
+        recordArtifactHistory(artifactsDir, runDir, phase, cleaned, {
+          reason: 'remediation',
+          detail: `audit remediation attempt ${attempt}`,
+          scope: `12-reevaluate-${attempt}`,
+        });
         fs.writeFileSync(artifactPath, cleaned + '\n');
         log(phase.name, `Artifact updated after audit remediation attempt ${attempt}: ${artifactPath}`);
 
@@ -1987,6 +3113,21 @@ function runArtifactPhase(
     }
   }
 
+  if (opts.review && phase.artifactFile) {
+    const review = await reviewArtifact(phase, config, artifactsDir, runDir, (opts.reviewFeedback?.length || 0) + 1);
+    if (review.action === 'pause') return 'stop';
+    if (review.action === 'reject') {
+      return runArtifactPhase(phase, config, artifactsDir, runDir, {
+        ...opts,
+        reviewFeedback: [...(opts.reviewFeedback || []), { feedback: review.feedback, draft: review.draft }],
+      });
+    }
+  }
+
+  if (phase.sidecarSchema) {
+    await generateArtifactSidecar(phase, config, artifactsDir, runDir, { cwd, budgetUsd: opts.budgetUsd });
+  }
+
   // Update config
   if (!config.completed_phases.includes(phase.id)) {
     config.completed_phases.push(phase.id);
@@ -1997,10 +3138,197 @@ function runArtifactPhase(
     runDir,
     `Phase ${phase.id} (${phase.name}) completed | Raw cost: $${result.costUsd.toFixed(4)} | Effective tracked phase cost: $${effectivePhaseCost.toFixed(4)}`
   );
+  return 'continue';
+}
+
+/**
+ * Writes human-authored artifacts (--import-artifact) into the run and marks
+ * their phases complete, so downstream phases read them instead of generated
+ * ones. Each file is validated like a generated artifact; with `normalize`,
+ * missing or failing sections are backfilled first. A file that still fails
+ * structural validation is rejected.
+ */
+async function importArtifacts(
+  imports: ArtifactImportSpec[],
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  opts: { normalize: boolean; budgetUsd?: number; dryRun?: boolean }
+): Promise<void> {
+  // Check every import before writing any of them.
+  const seen = new Set<string>();
+  for (const spec of imports) {
+    validatePhaseId(spec.phase);
+    const phase = findPhase(spec.phase)!;
+    if (phase.kind !== 'artifact' || !phase.artifactFile) {
+      throw new Error(`Phase ${phase.id} (${phase.name}) is not an artifact phase and cannot be imported.`);
+    }
+    if (isPhaseSkipped(phase.id)) {
+      throw new Error(`Phase ${phase.id} is skipped by configuration and cannot also be imported.`);
+    }
+    if (seen.has(phase.id)) {
+      throw new Error(`Phase ${phase.id} is imported more than once.`);
+    }
+    seen.add(phase.id);
+    readImportedArtifact(spec);
+  }
+
+  for (const spec of imports) {
+    const phase = findPhase(spec.phase)!;
+    const phaseEngine = resolveEngineRoute(config.engine_routes, phase.id, config.engine).engine;
+    let content = readImportedArtifact(spec);
+    let warnings = validateArtifactContent(phase.id, content);
+    const needsBackfill = checkPhaseSections(phase.id, content).some((violation) => violation.section !== null);
+    log(phase.name, `Importing ${spec.file}`);
+
+    if (opts.dryRun) {
+      for (const warning of warnings) log(phase.name, `  - ${warning}`);
+      const normalizeNote = opts.normalize && needsBackfill ? ', with section backfill' : '';
+      console.log(`  [dry-run] Phase ${phase.id}: would import ${spec.file} (${warnings.length} warning(s)${normalizeNote})`);
+      continue;
+    }
+    const failure = (): Error =>
+      new Error(
+        `Imported artifact for phase ${phase.id} (${spec.file}) failed validation: ${warnings.join('; ')}` +
+        (opts.normalize ? '' : '. Fix the file or pass --normalize-imports to backfill missing sections.')
+      );
+    if (!opts.normalize && hasFatalArtifactWarnings(warnings, phaseEngine)) {
+      throw failure();
+    }
+
+    recordArtifactHistory(artifactsDir, runDir, phase, content, { reason: 'imported', detail: spec.file });
+    let normalized = false;
+    if (opts.normalize && needsBackfill) {
+      checkBudget(config, opts.budgetUsd, { runDir });
+      const backfill = await backfillArtifactSections(phase, config, content, {
+        cwd: ROOT_DIR,
+        phaseEngine,
+        runDir,
+        artifactsDir,
+        budgetUsd: opts.budgetUsd,
+        scope: `${phase.id}-import`,
+      });
+      content = backfill.cleaned;
+      normalized = backfill.output !== null;
+      warnings = validateArtifactContent(phase.id, content);
+    }
+    if (hasFatalArtifactWarnings(warnings, phaseEngine)) {
+      throw failure();
+    }
+    for (const warning of warnings) log(phase.name, `Warning: ${warning}`);
+
+    const artifactPath = path.join(artifactsDir, phase.artifactFile!);
+    fs.writeFileSync(artifactPath, content + '\n');
+    log(phase.name, `Artifact imported: ${artifactPath}`);
+    if (phase.sidecarSchema) {
+      await generateArtifactSidecar(phase, config, artifactsDir, runDir, { cwd: ROOT_DIR, budgetUsd: opts.budgetUsd });
+    }
+
+    if (!config.completed_phases.includes(phase.id)) {
+      config.completed_phases.push(phase.id);
+    }
+    config.imported_artifacts = [
+      ...(config.imported_artifacts || []).filter((entry) => entry.phase !== phase.id),
+      { phase: phase.id, source: spec.file, imported_at: new Date().toISOString(), normalized, warnings },
+    ];
+    recordPhaseFingerprint(artifactsDir, phase, { imported: true });
+    saveConfig(runDir, config);
+    appendLog(
+      runDir,
+      `Phase ${phase.id} (${phase.name}) imported from ${spec.file}` +
+      `${normalized ? ' (sections backfilled)' : ''} | ${warnings.length} warning(s)`
+    );
+  }
+}
+
+async function runPluginPhase(
+  phase: PhaseDefinition,
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  opts: { budgetUsd?: number; dryRun?: boolean }
+): Promise<void> {
+  const plugin = getPhasePlugin(phase.id);
+  log(phase.name, 'Starting plugin phase...');
+  appendLog(runDir, `Phase ${phase.id} (${phase.name}) started [plugin]`);
+
+  validatePhasePrerequisites(config, artifactsDir, phase);
+
+  if (opts.dryRun) {
+    console.log(`  [dry-run] Plugin phase ${phase.id}: would run ${phase.name}`);
+    console.log(`  [dry-run] Required phases: ${phase.requiredPhases.join(', ') || 'none'}`);
+    return;
+  }
+
+  checkBudget(config, opts.budgetUsd, { runDir });
+
+  await plugin.run({
+    phase,
+    config,
+    artifactsDir,
+    runDir,
+    runAgent: async (prompt, options = {}) => {
+      checkBudget(config, opts.budgetUsd, { runDir });
+      const scope = options.label ? `${phase.id}-${options.label}` : phase.id;
+      const cwd = options.inWorkspace ? config.workspace_path : ROOT_DIR;
+      if (!cwd || !fs.existsSync(cwd)) {
+        throw new Error(`Plugin phase ${phase.id} requires a workspace path. Run phase 5 (Repo Bootstrap) first.`);
+      }
+      const result = await retryAgent(prompt, {
+        cwd,
+        maxTurns: options.maxTurns ?? phase.maxTurns,
+        permissions: options.permissions ?? 'read-only',
+        webSearch: options.webSearch,
+        engine: config.engine,
+        claudeOutputFormat: config.claude_output_format,
+        timeoutMs: config.timeout_ms,
+      }, scope, runDir);
+      recordAgentUsage(config, phase.id, result, runDir, `Phase ${scope}`);
+      logAgentDiagnostics(`Phase ${scope}`, result, runDir);
+      saveConfig(runDir, config);
+      return result;
+    },
+    checkBudget: () => checkBudget(config, opts.budgetUsd, { runDir }),
+    readArtifact: (phaseId) => {
+      try {
+        return readArtifact(artifactsDir, phaseId);
+      } catch {
+        return null;
+      }
+    },
+    readSidecar: (phaseId) => readArtifactSidecar(artifactsDir, phaseId),
+    writeArtifact: (content) => {
+      if (!phase.artifactFile) {
+        throw new Error(`Plugin phase ${phase.id} has no artifactFile to write.`);
+      }
+      const artifactPath = path.join(artifactsDir, phase.artifactFile);
+      recordArtifactHistory(artifactsDir, runDir, phase, content, { reason: 'plugin' });
+      fs.writeFileSync(artifactPath, content.endsWith('\n') ? content : `${content}\n`);
+      log(phase.name, `Artifact saved: ${artifactPath}`);
+      return artifactPath;
+    },
+    log: (message) => {
+      log(phase.name, message);
+      appendLog(runDir, `Phase ${phase.id}: ${message}`);
+    },
+  });
+
+  if (phase.artifactFile && !fs.existsSync(path.join(artifactsDir, phase.artifactFile))) {
+    throw new Error(`Plugin phase ${phase.id} finished without writing ${phase.artifactFile}.`);
+  }
+
+  if (!config.completed_phases.includes(phase.id)) {
+    config.completed_phases.push(phase.id);
+  }
+  config.current_phase = phase.id;
+  appendLog(
+    runDir,
+    `Phase ${phase.id} (${phase.name}) completed [plugin] | Tracked phase cost: $${(config.phase_costs?.[phase.id] || 0).toFixed(4)}`
+  );
 }
 
 function runRepoBootstrap(config: RunConfig, artifactsDir: string, runDir: string): void {
-  const phase = PHASES.find((p) => p.id === '5')!;
+  const phase = findPhaseByKind('repo-bootstrap')!;
   log(phase.name, 'Starting...');
   appendLog(runDir, `Phase 5 (${phase.name}) started`);
 
@@ -2068,6 +3396,8 @@ interface ImplementationTask {
   testExpectations: string[];
   dependencies: string;
   implementationNotes: string;
+  /** PRD user story / functional requirement ids the task delivers (US-001, FR-003). */
+  implements: string[];
   source: 'manifest' | 'decomposed' | 'dynamic';
 }
 
@@ -2090,6 +3420,7 @@ function buildTaskBody(task: ImplementationTask): string {
   if (task.priority) lines.push(`**Priority**: ${task.priority}`);
   if (task.complexity) lines.push(`**Complexity**: ${task.complexity}`);
   if (task.milestone) lines.push(`**Milestone**: ${task.milestone}`);
+  if (task.implements.length > 0) lines.push(`**Implements**: ${task.implements.join(', ')}`);
   if (lines[lines.length - 1] !== '') lines.push('');
 
   if (task.description) {
@@ -2157,6 +3488,8 @@ function normalizeManifestTask(
     typeof task.implementationNotes === 'string' ? task.implementationNotes.trim() : '';
 
   const markdownBody = typeof task.markdown === 'string' ? task.markdown.trim() : '';
+  const implementsLine = markdownBody.match(/^\*\*Implements\*\*:?(.*)$/im)?.[1] || '';
+  const implementsIds = normalizeStringArray(task.implements);
   const normalized: ImplementationTask = {
     id: taskId,
     title,
@@ -2170,6 +3503,7 @@ function normalizeManifestTask(
     testExpectations,
     dependencies,
     implementationNotes,
+    implements: implementsIds.length > 0 ? implementsIds : findRequirementIds(implementsLine),
     source,
   };
 
@@ -2250,6 +3584,7 @@ function parseFollowUpTaskManifest(raw: string, parentTask: ImplementationTask):
           priority: task.priority || parentTask.priority || 'P1',
           complexity: task.complexity || 'Medium',
           dependencies: task.dependencies || `Depends on: ${parentTask.id}`,
+          implements: task.implements.length > 0 ? task.implements : parentTask.implements,
           source: 'dynamic',
           body: buildTaskBody({
             ...task,
@@ -2258,6 +3593,7 @@ function parseFollowUpTaskManifest(raw: string, parentTask: ImplementationTask):
             priority: task.priority || parentTask.priority || 'P1',
             complexity: task.complexity || 'Medium',
             dependencies: task.dependencies || `Depends on: ${parentTask.id}`,
+            implements: task.implements.length > 0 ? task.implements : parentTask.implements,
             source: 'dynamic',
           }),
         });
@@ -2611,7 +3947,7 @@ function buildImplementationReplacements(
   artifactsDir: string,
   task: ImplementationTask
 ): Record<string, string> {
-  const phase = PHASES.find((p) => p.id === '9')!;
+  const phase = findPhaseByKind('implementation')!;
   const base = gatherReplacements(config, phase, artifactsDir);
   const techSpec = readArtifact(artifactsDir, '7');
   const taskBreakdown = readArtifact(artifactsDir, '8');
@@ -2750,13 +4086,13 @@ function shouldRunTaskE2ESetupSmoke(task: ImplementationTask): boolean {
   return PHASE9_E2E_SETUP_SMOKE_KEYWORDS.test(textSignals);
 }
 
-function runImplementation(
+async function runImplementation(
   config: RunConfig,
   artifactsDir: string,
   runDir: string,
   opts: { budgetUsd?: number; dryRun?: boolean }
-): void {
-  const phase = PHASES.find((p) => p.id === '9')!;
+): Promise<void> {
+  const phase = findPhaseByKind('implementation')!;
   log(phase.name, 'Starting...');
   appendLog(runDir, `Phase 9 (${phase.name}) started`);
 
@@ -2897,7 +4233,7 @@ function runImplementation(
       // Check budget before each task
       checkBudget(config, opts.budgetUsd, { runDir });
 
-      const promptPath = path.join(PROMPTS_DIR, phase.promptFile!);
+      const promptPath = phasePromptPath(phase);
       const replacements = buildImplementationReplacements(config, artifactsDir, task);
       const fullPrompt = capPromptLength(
         buildPrompt(promptPath, replacements),
@@ -2914,9 +4250,9 @@ function runImplementation(
       }
 
       // Run AI agent in the workspace directory with edit permissions
-      const result = retryAgent(fullPrompt, {
+      const result = await retryAgent(fullPrompt, {
         cwd: config.workspace_path,
-        maxTurns: 20,
+        maxTurns: phase.maxTurns,
         permissions: 'read-write',
         engine: config.engine,
         claudeOutputFormat: config.claude_output_format,
@@ -2926,6 +4262,8 @@ function runImplementation(
       // Track cost
       recordAgentUsage(config, '9', result, runDir, `Phase 9-task-${i + 1}`);
       logAgentDiagnostics(`Phase 9-task-${i + 1}`, result, runDir);
+      // Repairs for this task continue the implementation session where supported.
+      let taskSession = agentSession(result);
 
       const dynamicTasks = parseFollowUpTaskManifest(result.output, task);
       if (dynamicTasks.length > 0) {
@@ -2996,7 +4334,7 @@ function runImplementation(
           failedChecks
         );
 
-        const qualityRepairResult = retryAgent(
+        const qualityRepairResult = await retryAgent(
           capPromptLength(
             qualityRepairPrompt,
             TASK_PROMPT_CONTEXT_CHAR_LIMIT,
@@ -3005,15 +4343,24 @@ function runImplementation(
           ),
           {
             cwd: config.workspace_path,
-            maxTurns: 12,
+            maxTurns: phase.repairMaxTurns,
             permissions: 'read-write',
             engine: config.engine,
             claudeOutputFormat: config.claude_output_format,
             timeoutMs: config.timeout_ms,
           },
           `9-task-${i + 1}-quality-repair-${attempt}`,
-          runDir
+          runDir,
+          {
+            session: taskSession,
+            prompt: buildTaskRepairContinuationPrompt(
+              'task-level quality gate (typecheck/lint/build)',
+              trimContextContent('Task quality report', qualityResults.report, 12_000),
+              failedChecks
+            ),
+          }
         );
+        taskSession = agentSession(qualityRepairResult) || taskSession;
         recordAgentUsage(
           config,
           '9',
@@ -3085,7 +4432,7 @@ function runImplementation(
             failedChecks
           );
 
-          const setupRepairResult = retryAgent(
+          const setupRepairResult = await retryAgent(
             capPromptLength(
               setupRepairPrompt,
               TASK_PROMPT_CONTEXT_CHAR_LIMIT,
@@ -3094,15 +4441,24 @@ function runImplementation(
             ),
             {
               cwd: config.workspace_path,
-              maxTurns: 12,
+              maxTurns: phase.repairMaxTurns,
               permissions: 'read-write',
               engine: config.engine,
               claudeOutputFormat: config.claude_output_format,
               timeoutMs: config.timeout_ms,
             },
             `9-task-${i + 1}-e2e-setup-repair-${attempt}`,
-            runDir
+            runDir,
+            {
+              session: taskSession,
+              prompt: buildTaskRepairContinuationPrompt(
+                'Playwright setup smoke gate',
+                trimContextContent('Playwright setup smoke report', e2eSetupResults.report, 12_000),
+                failedChecks
+              ),
+            }
           );
+          taskSession = agentSession(setupRepairResult) || taskSession;
           recordAgentUsage(
             config,
             '9',
@@ -3226,7 +4582,7 @@ function runImplementation(
             trimContextContent('Milestone quality report', milestoneQuality.report, 24_000),
             failedChecks
           );
-          const milestoneRepairResult = retryAgent(
+          const milestoneRepairResult = await retryAgent(
             capPromptLength(
               milestoneRepairPrompt,
               TASK_PROMPT_CONTEXT_CHAR_LIMIT,
@@ -3289,6 +4645,7 @@ function runImplementation(
     // Record post-implementation status
     const finalDiff = gitDiffStat(config.workspace_path!);
     appendLog(runDir, `Post-implementation diff:\n${finalDiff}`);
+    writeTraceability(config, artifactsDir, runDir, null);
 
     if (!config.completed_phases.includes('9')) {
       config.completed_phases.push('9');
@@ -3314,13 +4671,13 @@ function runImplementation(
  * Phase 10: Run tests in the workspace and save results as an artifact.
  * This feeds real test results into the Phase 12 audit.
  */
-function runTestVerification(
+async function runTestVerification(
   config: RunConfig,
   artifactsDir: string,
   runDir: string,
   opts: { dryRun?: boolean; budgetUsd?: number }
-): void {
-  const phase = PHASES.find((p) => p.id === '10')!;
+): Promise<void> {
+  const phase = findPhaseByKind('test-verification')!;
   log(phase.name, 'Starting...');
   appendLog(runDir, `Phase 10 (${phase.name}) started`);
   validatePhasePrerequisites(config, artifactsDir, phase);
@@ -3384,7 +4741,7 @@ function runTestVerification(
     appendLog(runDir, checkpointMessage);
   }
 
-  const runStageVerification = (stage: Phase10Stage): void => {
+  const runStageVerification = async (stage: Phase10Stage): Promise<void> => {
     log(phase.name, `[${stage.id}] Starting ${stage.name} verification...`);
     let latestResults = runWorkspaceTests(workspacePath, stage.timeoutMs, stage.suite);
     verificationBlocks.push({
@@ -3400,6 +4757,7 @@ function runTestVerification(
         latestResults.checks.filter((check) => !check.success)
       );
       let previousPromptFailures: TestCheckResult[] | null = null;
+      let repairSession: AgentSession | null = null;
 
       for (let attempt = 1; attempt <= maxRepairAttempts; attempt++) {
         const failedChecks = latestResults.checks.filter((check) => !check.success);
@@ -3437,19 +4795,29 @@ function runTestVerification(
           `Phase 10 ${stage.id} repair ${attempt}`,
           runDir
         );
-        const repairResult = retryAgent(
+        const repairResult = await retryAgent(
           repairPrompt,
           {
             cwd: config.workspace_path,
-            maxTurns: 20,
+            maxTurns: phase.repairMaxTurns,
             permissions: 'read-write',
             engine: config.engine,
             claudeOutputFormat: config.claude_output_format,
             timeoutMs: config.timeout_ms,
           },
           `10-${stage.id.toLowerCase()}-repair-${attempt}`,
-          runDir
+          runDir,
+          {
+            session: repairSession,
+            prompt: buildTestRepairContinuationPrompt(failedChecks, {
+              stageLabel: `${stage.id} ${stage.name}`,
+              attempt,
+              maxAttempts: maxRepairAttempts,
+              failureDeltaSummary,
+            }),
+          }
         );
+        repairSession = agentSession(repairResult) || repairSession;
         recordAgentUsage(config, '10', repairResult, runDir, `Phase 10-${stage.id}-repair-${attempt}`);
         logAgentDiagnostics(`Phase 10-${stage.id}-repair-${attempt}`, repairResult, runDir);
 
@@ -3533,7 +4901,7 @@ function runTestVerification(
         continue;
       }
 
-      runStageVerification(stage);
+      await runStageVerification(stage);
       completedStageSet.add(stage.id);
       config.phase10_completed_stages = Array.from(completedStageSet);
       saveConfig(runDir, config);
@@ -3542,6 +4910,7 @@ function runTestVerification(
 
     // Commit any test-related changes (e.g., lockfile updates)
     gitCommitChanges(workspacePath, 'Pipeline Phase 10 - Post-implementation test verification');
+    writeTraceability(config, artifactsDir, runDir, []);
 
     config.phase10_completed_stages = [];
     if (!config.completed_phases.includes('10')) {
@@ -3573,10 +4942,100 @@ function runTestVerification(
     config.phase10_completed_stages = Array.from(completedStageSet);
     saveConfig(runDir, config);
     appendLog(runDir, 'Phase 10 preserves repair commits and does not rollback on failure.');
+    // Latest result per stage: earlier blocks hold failures that repairs may have fixed.
+    const latestStageChecks = (['10A', '10B'] as const).flatMap((stageId) => {
+      const block = [...verificationBlocks].reverse().find((entry) => entry.title.startsWith(`${stageId} `));
+      return block ? block.result.checks.filter((check) => !check.success) : [];
+    });
+    writeTraceability(
+      config,
+      artifactsDir,
+      runDir,
+      parseFailureRecords(latestStageChecks).map((record) => ({
+        check: record.checkName,
+        file: record.file,
+        title: record.title,
+      }))
+    );
     throw error;
   }
 }
 
+// ---------------------------------------------------------------------------
+// Requirement Traceability
+// ---------------------------------------------------------------------------
+
+const TRACEABILITY_MARKDOWN_FILE = 'traceability.md';
+const TRACEABILITY_JSON_FILE = 'traceability.json';
+
+function traceTestFiles(files: string[]): string[] {
+  return files.filter((file) => looksLikeTestFile(file.startsWith('/') ? file : `/${file}`));
+}
+
+/**
+ * Writes `traceability.md` / `.json`, linking PRD story and requirement ids
+ * to tasks, Phase 9 commits and test files. `failures` is null before Phase
+ * 10 has run. Problems are logged, never thrown: the matrix is advisory.
+ */
+function writeTraceability(
+  config: RunConfig,
+  artifactsDir: string,
+  runDir: string,
+  failures: TraceFailure[] | null
+): void {
+  try {
+    const requirements = extractRequirements(readArtifact(artifactsDir, '4'), readArtifactSidecar(artifactsDir, '4'));
+    if (requirements.length === 0) {
+      appendLog(runDir, 'Traceability skipped: the PRD defines no US-/FR- requirement ids.');
+      return;
+    }
+
+    let tasks = loadTaskQueueArtifact(artifactsDir);
+    if (tasks.length === 0) tasks = parseTaskManifest(readArtifact(artifactsDir, '8'));
+    const breakdownSidecar = readArtifactSidecar(artifactsDir, '8') as {
+      tasks?: Array<{ id: string; stories?: string[] }>;
+    } | null;
+    const sidecarStories = (taskId: string): string[] =>
+      (breakdownSidecar?.tasks || [])
+        .filter((entry) => taskId === entry.id || taskId.startsWith(`${entry.id}-`))
+        .flatMap((entry) => entry.stories || []);
+
+    const traceTasks: TraceTask[] = tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      requirementIds: Array.from(
+        new Set([
+          ...task.implements,
+          ...findRequirementIds([task.title, task.body, ...task.acceptanceCriteria, ...task.testExpectations].join('\n')),
+          ...sidecarStories(task.id),
+        ])
+      ),
+      testFiles: traceTestFiles(task.targetFiles),
+    }));
+    const commits = config.workspace_path
+      ? listGitCommits(config.workspace_path, 'Pipeline Phase 9 - Task ').flatMap((commit) => {
+          const taskId = taskIdFromCommitSubject(commit.subject);
+          return taskId ? [{ sha: commit.sha, subject: commit.subject, taskId, testFiles: traceTestFiles(commit.files) }] : [];
+        })
+      : [];
+
+    const matrix = buildTraceabilityMatrix({ requirements, tasks: traceTasks, commits, failures });
+    fs.writeFileSync(path.join(artifactsDir, TRACEABILITY_JSON_FILE), JSON.stringify(matrix, null, 2) + '\n');
+    fs.writeFileSync(path.join(artifactsDir, TRACEABILITY_MARKDOWN_FILE), renderTraceabilityMarkdown(matrix));
+
+    const flagged = matrix.entries.filter((entry) => entry.status !== 'covered');
+    const summary =
+      `Traceability: ${matrix.summary.covered}/${matrix.entries.length} requirement(s) covered` +
+      (flagged.length > 0 ? `; flagged: ${flagged.map((entry) => `${entry.requirement.id} (${entry.status})`).join(', ')}` : '');
+    log('Traceability', summary);
+    appendLog(runDir, summary);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log('Traceability', `Warning: could not build the traceability matrix: ${message}`);
+    appendLog(runDir, `Traceability warning: ${message}`);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Run Report Generation
 // ---------------------------------------------------------------------------
@@ -3587,13 +5046,25 @@ function generateRunReport(config: RunConfig, runDir: string): void {
   sections.push('# Pipeline Run Report\n');
   sections.push(`- **Run ID**: ${config.run_id}`);
   sections.push(`- **Idea**: ${config.idea}`);
+  if (config.forked_from) {
+    sections.push(
+      `- **Forked From**: ${config.forked_from.run_id} at phase ${config.forked_from.at_phase} ` +
+      `(source cost $${config.forked_from.source_cost_usd.toFixed(4)}, not included below)`
+    );
+  }
   sections.push(`- **Engine**: ${config.engine}`);
+  if (config.engine_routes && config.engine_routes.length > 0) {
+    sections.push(`- **Engine Routes**: ${config.engine_routes.map(formatEngineRoute).join(', ')}`);
+  }
   if (config.engine === 'claude') {
     sections.push(`- **Claude Output Format**: ${config.claude_output_format || 'json'}`);
   }
   if (config.repo_url) sections.push(`- **Repo**: ${config.repo_url}`);
   if (config.workspace_path) sections.push(`- **Workspace**: ${config.workspace_path}`);
   sections.push(`- **Completed Phases**: ${config.completed_phases.join(', ')}`);
+  if ((config.skipped_phases || []).length > 0) {
+    sections.push(`- **Skipped Phases**: ${config.skipped_phases!.join(', ')}`);
+  }
   if (typeof config.task_decomposition_events === 'number') {
     sections.push(`- **Task Decomposition Events**: ${config.task_decomposition_events}`);
   }
@@ -3612,6 +5083,15 @@ function generateRunReport(config: RunConfig, runDir: string): void {
       `- Token usage: ${(config.total_input_tokens || 0).toLocaleString()} input / ${(config.total_output_tokens || 0).toLocaleString()} output`
     );
   }
+  if ((config.total_cache_read_tokens || 0) > 0 || (config.total_cache_write_tokens || 0) > 0) {
+    sections.push(
+      `- Prompt cache: ${(config.total_cache_read_tokens || 0).toLocaleString()} tokens read / ` +
+      `${(config.total_cache_write_tokens || 0).toLocaleString()} written ` +
+      `(estimated savings vs. uncached input: $${(config.cache_savings_usd || 0).toFixed(4)})`
+    );
+  }
+  const rateCard = loadRateCard();
+  sections.push(`- Estimates use rate card version ${rateCard.version} (effective ${rateCard.effective_date})`);
   sections.push('');
   if (config.phase_costs) {
     sections.push('| Phase | Effective Cost | Actual | Estimated |');
@@ -3624,7 +5104,7 @@ function generateRunReport(config: RunConfig, runDir: string): void {
       ])
     );
     for (const phaseId of phaseIds) {
-      const phaseName = PHASES.find((p) => p.id === phaseId)?.name || phaseId;
+      const phaseName = findPhase(phaseId)?.name || phaseId;
       const effective = config.phase_costs?.[phaseId] || 0;
       const actual = config.phase_costs_actual?.[phaseId] || 0;
       const estimated = config.phase_costs_estimated?.[phaseId] || 0;
@@ -3635,17 +5115,388 @@ function generateRunReport(config: RunConfig, runDir: string): void {
     sections.push('');
   }
 
+  const engineCosts = Object.entries(config.engine_costs || {});
+  if (engineCosts.length > 1 || (engineCosts.length === 1 && engineCosts[0][0] !== config.engine)) {
+    sections.push('| Engine | Effective Cost |');
+    sections.push('|--------|----------------|');
+    for (const [engine, cost] of engineCosts) {
+      sections.push(`| ${engine} | $${cost.toFixed(4)} |`);
+    }
+    sections.push('');
+  }
+
+  if (config.engine_failovers && config.engine_failovers.length > 0) {
+    sections.push('## Engine Failovers\n');
+    sections.push('| Scope | From | To | Reason |');
+    sections.push('|-------|------|----|--------|');
+    for (const event of config.engine_failovers) {
+      sections.push(`| ${event.scope} | ${event.from} | ${event.to} | ${event.reason.replace(/\|/g, '\\|')} |`);
+    }
+    sections.push('');
+  }
+
+  if (config.approval_decisions && config.approval_decisions.length > 0) {
+    sections.push('## Approval Decisions\n');
+    sections.push('| Time | Phase | Gate | Decision | Details |');
+    sections.push('|------|-------|------|----------|---------|');
+    for (const decision of config.approval_decisions) {
+      const details = [
+        decision.attempt ? `draft ${decision.attempt}` : '',
+        decision.warnings !== undefined ? `${decision.warnings} warning(s) after edit` : '',
+        decision.feedback ? `feedback: ${decision.feedback}` : '',
+        decision.via === 'file' ? 'via approvals file' : '',
+      ]
+        .filter(Boolean)
+        .join('; ')
+        .replace(/\|/g, '\\|');
+      sections.push(`| ${decision.at} | ${decision.phase} | ${decision.gate} | ${decision.action} | ${details || '—'} |`);
+    }
+    sections.push('');
+  }
+
+  if ((config.imported_artifacts || []).length > 0) {
+    sections.push('## Imported Artifacts\n');
+    sections.push('| Phase | Source | Imported | Sections Backfilled | Warnings |');
+    sections.push('|-------|--------|----------|---------------------|----------|');
+    for (const entry of config.imported_artifacts!) {
+      const warnings = entry.warnings.length > 0 ? entry.warnings.join('; ').replace(/\|/g, '\\|') : '—';
+      sections.push(
+        `| ${entry.phase} | ${entry.source} | ${entry.imported_at} | ${entry.normalized ? 'yes' : 'no'} | ${warnings} |`
+      );
+    }
+    sections.push('');
+  }
+
+  const history = summarizeArtifactHistory(loadArtifactHistory(path.join(runDir, 'artifacts')));
+  if (history.length > 0) {
+    sections.push('## Artifact History\n');
+    sections.push('| Artifact | Versions | Regenerations | Why |');
+    sections.push('|----------|----------|---------------|-----|');
+    for (const summary of history) {
+      const reasons = Object.entries(summary.reasons)
+        .map(([reason, count]) => `${reason} x${count}`)
+        .join(', ');
+      sections.push(`| ${summary.file} | ${summary.versions} | ${summary.regenerations} | ${reasons} |`);
+    }
+    sections.push('');
+    sections.push(`Compare versions with \`npx ts-node tools/run-pipeline.ts diff ${runDir} <artifact>\`.\n`);
+  }
+
   const reportPath = path.join(runDir, 'report.md');
   fs.writeFileSync(reportPath, sections.join('\n') + '\n');
   log('Report', `Run report saved: ${reportPath}`);
 }
 
+// ---------------------------------------------------------------------------
+// Signal Handling
+// ---------------------------------------------------------------------------
+
+/**
+ * SIGINT stops the running agent, saves run state and exits (a second SIGINT
+ * exits immediately). SIGUSR2 toggles pause/resume of running agents.
+ */
+function installSignalHandlers(): void {
+  process.on('SIGINT', () => {
+    if (INTERRUPTED) {
+      console.error('\nForced exit.');
+      process.exit(130);
+    }
+    INTERRUPTED = true;
+    log('Pipeline', 'Interrupt received. Stopping agent and saving run state...');
+    void cancelActiveAgents('interrupted by SIGINT').finally(() => {
+      if (ACTIVE_RUN_DIR) {
+        try {
+          appendLog(ACTIVE_RUN_DIR, 'Pipeline interrupted by SIGINT');
+          if (ACTIVE_CONFIG) saveConfig(ACTIVE_RUN_DIR, ACTIVE_CONFIG);
+        } catch {
+          // best effort
+        }
+        console.log(`\nPipeline interrupted. Resume with: --resume ${ACTIVE_RUN_DIR}`);
+      }
+      process.exit(130);
+    });
+  });
+
+  if (process.platform !== 'win32') {
+    process.on('SIGUSR2', () => {
+      const paused = !areAgentsPaused();
+      setAgentsPaused(paused);
+      const message = paused
+        ? `Agents paused (send SIGUSR2 to process ${process.pid} again to resume)`
+        : 'Agents resumed';
+      log('Pipeline', message);
+      if (ACTIVE_RUN_DIR) appendLog(ACTIVE_RUN_DIR, message);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transcript Subcommand
+// ---------------------------------------------------------------------------
+
+function printTranscriptUsage(): void {
+  console.log(`
+Usage: npx ts-node tools/run-pipeline.ts transcript <run-dir> [scope|file] [options]
+
+Renders a saved agent transcript as Markdown or HTML. Without a scope, lists
+the transcripts recorded for the run. A scope (e.g. "9-task-3") selects the
+latest invocation with that label; a file name selects one invocation exactly.
+
+Options:
+  --format <md|html>       Output format (default: md)
+  --out <path>             Output file, or - for stdout (default: next to the transcript)
+  --help                   Show this help message
+`);
+}
+
+function runTranscriptCommand(argv: string[]): void {
+  let runDirArg: string | undefined;
+  let selector: string | undefined;
+  let format = 'md';
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--format':
+        format = argv[++i];
+        if (format !== 'md' && format !== 'html') {
+          throw new Error(`Invalid transcript format: "${format}". Must be md or html.`);
+        }
+        break;
+      case '--out':
+        out = argv[++i];
+        break;
+      case '--help':
+        printTranscriptUsage();
+        return;
+      default:
+        if (argv[i].startsWith('--')) {
+          throw new Error(`Unknown transcript option: ${argv[i]}`);
+        }
+        if (!runDirArg) runDirArg = argv[i];
+        else selector = argv[i];
+        break;
+    }
+  }
+
+  if (!runDirArg) {
+    printTranscriptUsage();
+    process.exit(1);
+  }
+  const transcriptDir = path.join(path.resolve(runDirArg), 'transcripts');
+  if (!fs.existsSync(transcriptDir)) {
+    throw new Error(`No transcripts found in ${path.resolve(runDirArg)}`);
+  }
+  const entries = readTranscriptIndex(transcriptDir);
+
+  if (!selector) {
+    if (entries.length === 0) {
+      console.log('No finished agent invocations recorded.');
+      return;
+    }
+    for (const entry of entries) {
+      const engine = entry.model ? `${entry.engine}:${entry.model}` : entry.engine;
+      console.log(`${entry.file.padEnd(48)} ${entry.status.padEnd(5)} ${entry.elapsed.padStart(8)}  ${engine}`);
+    }
+    return;
+  }
+
+  let file = path.join(transcriptDir, selector);
+  if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    const matches = entries.filter(
+      (entry) => normalizeScopeLabel(entry.label) === normalizeScopeLabel(selector as string)
+    );
+    if (matches.length === 0) {
+      throw new Error(`No transcript for "${selector}" in ${transcriptDir}`);
+    }
+    file = path.join(transcriptDir, matches[matches.length - 1].file);
+  }
+
+  const transcript = readTranscript(file);
+  const rendered = format === 'html' ? renderTranscriptHtml(transcript) : renderTranscriptMarkdown(transcript);
+  if (out === '-') {
+    process.stdout.write(rendered);
+    return;
+  }
+  const outPath = out ? path.resolve(out) : file.replace(/\.jsonl$/, `.${format}`);
+  fs.writeFileSync(outPath, rendered);
+  console.log(outPath);
+}
+
+// ---------------------------------------------------------------------------
+// Diff Subcommand
+// ---------------------------------------------------------------------------
+
+function printDiffUsage(): void {
+  console.log(`
+Usage: npx ts-node tools/run-pipeline.ts diff <run-dir> [artifact] [from] [to] [options]
+
+Compares saved versions of a run's artifacts section by section. Without an
+artifact, lists how many versions each artifact has and why. With only an
+artifact (file name like 03_prd.md, stem like 03_prd, or phase id like 3),
+lists its versions. With version numbers, shows what changed from <from> to
+<to> (default: the latest version); "current" is the artifact file itself.
+
+Options:
+  --stat                   Only list changed sections with line counts
+  --help                   Show this help message
+`);
+}
+
+function runDiffCommand(argv: string[]): void {
+  const positional: string[] = [];
+  let stat = false;
+
+  for (const arg of argv) {
+    switch (arg) {
+      case '--stat':
+        stat = true;
+        break;
+      case '--help':
+        printDiffUsage();
+        return;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown diff option: ${arg}`);
+        }
+        positional.push(arg);
+        break;
+    }
+  }
+
+  const [runDirArg, selector, fromArg, toArg] = positional;
+  if (!runDirArg || positional.length > 4) {
+    printDiffUsage();
+    process.exit(1);
+  }
+  const runDir = path.resolve(runDirArg);
+  const artifactsDir = path.join(runDir, 'artifacts');
+  if (!fs.existsSync(artifactsDir)) {
+    throw new Error(`No artifacts found in ${runDir}`);
+  }
+  const history = loadArtifactHistory(artifactsDir);
+
+  if (!selector) {
+    const summaries = summarizeArtifactHistory(history);
+    if (summaries.length === 0) {
+      console.log('No artifact versions recorded.');
+      return;
+    }
+    for (const summary of summaries) {
+      const reasons = Object.entries(summary.reasons)
+        .map(([reason, count]) => `${reason} x${count}`)
+        .join(', ');
+      console.log(`${summary.file.padEnd(32)} ${String(summary.versions).padStart(3)} version(s)  ${reasons}`);
+    }
+    return;
+  }
+
+  let file = history.find((entry) => entry.file === selector || entry.file === `${selector}.md`)?.file;
+  if (!file) {
+    usePipelineDefinition(loadConfig(runDir).pipeline_file);
+    file = findPhase(selector)?.artifactFile ?? undefined;
+  }
+  const versions = file ? loadArtifactHistory(artifactsDir, file) : [];
+  if (!file || versions.length === 0) {
+    throw new Error(`No recorded versions for "${selector}" in ${artifactsDir}`);
+  }
+
+  if (!fromArg) {
+    for (const entry of versions) {
+      const detail = entry.detail ? `  ${entry.detail}` : '';
+      console.log(
+        `${String(entry.version).padStart(3)}  ${entry.reason.padEnd(16)} ${entry.recorded_at}  ` +
+        `${String(entry.chars).padStart(7)} chars${detail}`
+      );
+    }
+    return;
+  }
+
+  const artifactFile = file;
+  const resolveVersion = (arg: string): { label: string; content: string } => {
+    if (arg === 'current') {
+      const currentPath = path.join(artifactsDir, artifactFile);
+      if (!fs.existsSync(currentPath)) {
+        throw new Error(`Artifact not found: ${currentPath}`);
+      }
+      return { label: 'current', content: fs.readFileSync(currentPath, 'utf-8') };
+    }
+    const entry = versions.find((version) => String(version.version) === arg);
+    if (!entry) {
+      throw new Error(`Unknown version "${arg}" for ${artifactFile}; recorded versions are 1-${versions.length}.`);
+    }
+    return { label: `v${entry.version} (${entry.reason})`, content: readArtifactVersion(artifactsDir, entry) };
+  };
+  const from = resolveVersion(fromArg);
+  const to = resolveVersion(toArg || String(versions[versions.length - 1].version));
+  process.stdout.write(
+    renderArtifactDiff(
+      `${artifactFile}: ${from.label} -> ${to.label}`,
+      diffArtifactSections(from.content, to.content),
+      { stat }
+    )
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
 
 async function main(): Promise<void> {
+  if (process.argv[2] === 'transcript') {
+    runTranscriptCommand(process.argv.slice(3));
+    return;
+  }
+  if (process.argv[2] === 'diff') {
+    runDiffCommand(process.argv.slice(3));
+    return;
+  }
+
   const args = parseArgs();
+  installSignalHandlers();
+  const pluginIds = loadPhasePlugins();
+  // Validate an explicit pipeline definition before creating or touching a run directory.
+  if (args.pipelineFile) usePipelineDefinition(args.pipelineFile);
+
+  if (args.engine === 'replay') {
+    if (!args.resume) {
+      throw new Error('--engine replay requires --resume <run-dir> of a run recorded with --record.');
+    }
+    if (args.record) {
+      throw new Error('--record cannot be combined with --engine replay.');
+    }
+    CASSETTE_MODE = 'replay';
+  } else if (args.record) {
+    CASSETTE_MODE = 'record';
+  }
+
+  if (args.fork) {
+    if (!args.atPhase) {
+      throw new Error('--fork requires --at-phase <id>.');
+    }
+    if (args.resume || args.idea || args.ideaFile) {
+      throw new Error('--fork cannot be combined with --resume or a new idea.');
+    }
+    const sourceDir = path.resolve(args.fork);
+    if (!fs.existsSync(sourceDir)) {
+      throw new Error(`Run directory not found: ${sourceDir}`);
+    }
+    const source = loadConfig(sourceDir);
+    const forkNumber = countForks(RUNS_DIR, source.run_id) + 1;
+    const repoName = args.repoName || `${source.repo_name || slugify(source.idea)}-fork-${forkNumber}`;
+    validateRepoName(repoName);
+    const forkDir = forkRun(sourceDir, args.atPhase, {
+      runsDir: RUNS_DIR,
+      runId: `${timestamp()}_${source.engine}_${slugify(source.idea)}-fork-${forkNumber}`,
+      repoName,
+    });
+    log('Fork', `Forked ${source.run_id} at phase ${args.atPhase} into ${forkDir} (repo ${repoName})`);
+    // The fork then continues like a resumed run starting at the fork point.
+    args.resume = forkDir;
+    args.fromPhase = args.atPhase;
+  } else if (args.atPhase) {
+    throw new Error('--at-phase is only valid with --fork <run-dir>.');
+  }
 
   let config: RunConfig;
   let runDir: string;
@@ -3664,12 +5515,44 @@ async function main(): Promise<void> {
     ensureRunConfigDefaults(config);
     effectiveInteractive = args.interactive ?? config.interactive_mode ?? true;
     config.interactive_mode = effectiveInteractive;
+    if (args.fileApprovals !== undefined) {
+      config.approval_mode = args.fileApprovals ? 'file' : 'terminal';
+    }
     if (config.engine === 'claude' && !config.claude_output_format) {
       config.claude_output_format = 'json';
     }
     if (args.claudeOutputFormat) {
       config.claude_output_format = args.claudeOutputFormat;
     }
+    if (args.mockFixture) {
+      config.mock_fixture = args.mockFixture;
+    }
+    if (args.pricingFile) {
+      config.pricing_file = args.pricingFile;
+    }
+    if (args.pipelineFile) {
+      config.pipeline_file = args.pipelineFile;
+    }
+    if (args.variants) {
+      config.artifact_variants = args.variants;
+    }
+    if (args.engineRoutes) {
+      config.engine_routes = args.engineRoutes;
+    }
+    if (args.engineFailover) {
+      config.engine_failover = args.engineFailover;
+    }
+    if (args.hooks) {
+      config.phase_hooks = args.hooks;
+    }
+    if (args.skipPhases) {
+      config.skipped_phases = args.skipPhases;
+    }
+    if (args.engineModules) {
+      config.engine_modules = Array.from(
+        new Set([...(config.engine_modules || []), ...args.engineModules])
+      );
+    }
     artifactsDir = path.join(runDir, 'artifacts');
     log('Resume', `Resuming run: ${config.run_id}`);
     log('Resume', `Completed phases: ${config.completed_phases.join(', ')}`);
@@ -3679,7 +5562,13 @@ async function main(): Promise<void> {
     if (config.total_cost_usd) {
       log('Resume', `Cost so far: $${config.total_cost_usd.toFixed(4)}`);
     }
-    log('Resume', `Run mode: ${effectiveInteractive ? 'interactive' : 'auto'}`);
+    log('Resume', `Run mode: ${runModeLabel(config, runDir)}`);
+    if (CASSETTE_MODE === 'replay') {
+      log('Resume', `Replaying recorded ${config.engine} results from ${path.join(runDir, 'cassettes')}`);
+      appendLog(runDir, `Replay mode: agent results served from cassettes (recorded engine: ${config.engine})`);
+    } else if (CASSETTE_MODE === 'record') {
+      log('Resume', `Recording agent results to ${path.join(runDir, 'cassettes')}`);
+    }
     saveConfig(runDir, config);
   } else {
     if (args.idea && args.ideaFile) {
@@ -3714,9 +5603,19 @@ async function main(): Promise<void> {
       default_branch: DEFAULT_BRANCH,
       visibility: args.visibility || DEFAULT_VISIBILITY,
       engine: selectedEngine,
+      engine_modules: args.engineModules,
+      mock_fixture: args.mockFixture,
+      pricing_file: args.pricingFile,
+      pipeline_file: args.pipelineFile,
+      artifact_variants: args.variants,
+      engine_routes: args.engineRoutes,
+      engine_failover: args.engineFailover,
+      phase_hooks: args.hooks,
+      skipped_phases: args.skipPhases,
       claude_output_format:
         selectedEngine === 'claude' ? (args.claudeOutputFormat || 'json') : undefined,
       interactive_mode: args.interactive ?? true,
+      approval_mode: args.fileApprovals ? 'file' : undefined,
       timeout_ms: args.timeoutMs,
       current_phase: '-1',
       completed_phases: [],
@@ -3737,7 +5636,10 @@ async function main(): Promise<void> {
     saveConfig(runDir, config);
     log('Init', `New run created: ${runId}`);
     log('Init', `Run directory: ${runDir}`);
-    log('Init', `Run mode: ${effectiveInteractive ? 'interactive' : 'auto'}`);
+    log('Init', `Run mode: ${runModeLabel(config, runDir)}`);
+    if (CASSETTE_MODE === 'record') {
+      log('Init', `Recording agent results to ${path.join(runDir, 'cassettes')}`);
+    }
     if (config.engine === 'claude') {
       log('Init', `Claude output format: ${config.claude_output_format || 'json'}`);
     }
@@ -3746,12 +5648,82 @@ async function main(): Promise<void> {
     }
   }
 
+  const usesMockEngine =
+    config.engine === 'mock' || (config.engine_routes || []).some((route) => route.engine === 'mock');
+  if (usesMockEngine && !config.mock_fixture) {
+    throw new Error('--engine mock requires --mock-fixture <path>.');
+  }
+  MOCK_FIXTURE = config.mock_fixture || null;
+  if (config.pricing_file) {
+    setRateCardFile(config.pricing_file);
+  }
+  // Fail early on a malformed rate card rather than at the first cost estimate.
+  const rateCard = loadRateCard();
+  log('Pipeline', `Rate card: version ${rateCard.version} (effective ${rateCard.effective_date})`);
+  const pipeline = usePipelineDefinition(config.pipeline_file);
+  log('Pipeline', `Pipeline: ${pipeline.name} (${pipeline.file}, ${pipeline.phases.length} phases)`);
+  if (pluginIds.length > 0) {
+    log('Pipeline', `Phase plugins: ${pluginIds.join(', ')}`);
+  }
+  ENGINE_ROUTES = config.engine_routes || [];
+  if (ENGINE_ROUTES.length > 0) {
+    log('Pipeline', `Engine routes: ${ENGINE_ROUTES.map(formatEngineRoute).join(', ')}`);
+  }
+  setSkippedPhases(config.skipped_phases || []);
+  if ((config.skipped_phases || []).length > 0) {
+    log('Pipeline', `Skipped phases: ${config.skipped_phases!.map((id) => `${id} (${findPhase(id)!.name})`).join(', ')}`);
+  }
+  const hookedPhases = Object.keys(config.phase_hooks || {});
+  const unknownHookPhases = hookedPhases.filter((id) => !findPhase(id));
+  if (unknownHookPhases.length > 0) {
+    throw new Error(`Phase hooks reference phase(s) not in the pipeline: ${unknownHookPhases.join(', ')}`);
+  }
+  if (hookedPhases.length > 0) {
+    log('Pipeline', `Phase hooks: ${hookedPhases.map((id) => {
+      const stages = (['pre', 'post'] as const).filter((stage) => (config.phase_hooks![id][stage] || []).length > 0);
+      return `${id} (${stages.join('/')})`;
+    }).join(', ')}`);
+  }
+  ENGINE_FAILOVER = config.engine_failover || [];
+  if (ENGINE_FAILOVER.length > 0) {
+    log('Pipeline', `Engine failover chain: ${[config.engine, ...ENGINE_FAILOVER].join(' -> ')}`);
+  }
+  ACTIVE_CONFIG = config;
+
+  if (args.importArtifacts) {
+    await importArtifacts(args.importArtifacts, config, artifactsDir, runDir, {
+      normalize: Boolean(args.normalizeImports),
+      budgetUsd: args.budgetUsd,
+      dryRun: args.dryRun,
+    });
+  } else if (args.normalizeImports) {
+    throw new Error('--normalize-imports is only valid with --import-artifact.');
+  }
+
   // Determine starting phase
+  const phases = pipeline.phases;
+  if (args.fromPhase) validatePhaseId(args.fromPhase);
   let startPhaseId = args.fromPhase ?? '';
+
+  if (args.resume) {
+    const earliestStale = await handleStalePhases(config, artifactsDir, runDir, {
+      // File-approval runs are unattended, so stale phases are re-run as in auto mode.
+      interactive: effectiveInteractive && config.approval_mode !== 'file',
+      dryRun: Boolean(args.dryRun),
+    });
+    if (
+      earliestStale &&
+      startPhaseId &&
+      phases.findIndex((p) => p.id === earliestStale) < phases.findIndex((p) => p.id === startPhaseId)
+    ) {
+      log('Resume', `Starting from stale phase ${earliestStale} instead of ${startPhaseId}`);
+      startPhaseId = earliestStale;
+    }
+  }
   if (!startPhaseId) {
     // Find the next uncompleted phase
-    for (const phase of PHASES) {
-      if (!config.completed_phases.includes(phase.id)) {
+    for (const phase of phases) {
+      if (!config.completed_phases.includes(phase.id) && !isPhaseSkipped(phase.id)) {
         startPhaseId = phase.id;
         break;
       }
@@ -3769,56 +5741,138 @@ async function main(): Promise<void> {
   }
 
   // Execute phases
-  for (const phase of PHASES) {
-    if (PHASES.indexOf(phase) < PHASES.findIndex((p) => p.id === startPhaseId)) continue;
-
-    console.log(`\n${'='.repeat(60)}`);
-    console.log(`  Phase ${phase.id}: ${phase.name}`);
-    console.log(`${'='.repeat(60)}\n`);
-
-    // Human approval gate (in interactive mode)
-    if (effectiveInteractive && !args.dryRun && APPROVAL_GATES.has(phase.id)) {
-      const costStr = config.total_cost_usd ? ` (cost so far: $${config.total_cost_usd.toFixed(2)})` : '';
-      const approved = await promptApproval(
-        `Phase ${phase.id} (${phase.name}) is about to run${costStr}. Continue?`
-      );
-      if (!approved) {
-        log(phase.name, 'Skipped by user. Pipeline paused.');
-        appendLog(runDir, `Phase ${phase.id} skipped by user`);
-        saveConfig(runDir, config);
-        console.log(`\nPipeline paused. Resume with: --resume ${runDir} --from-phase ${phase.id}`);
-        return;
+  const startIndex = phases.findIndex((p) => p.id === startPhaseId);
+  const phasesToRun = phases.slice(startIndex).filter((phase) => {
+    const imported = (config.imported_artifacts || []).find((entry) => entry.phase === phase.id);
+    if (imported && config.completed_phases.includes(phase.id)) {
+      // Naming an imported phase with --from-phase regenerates it.
+      if (phase.id !== args.fromPhase) {
+        log('Pipeline', `Phase ${phase.id} (${phase.name}) uses the imported ${imported.source}`);
+        return false;
       }
+      log('Pipeline', `Phase ${phase.id} (${phase.name}) was imported; regenerating it as requested`);
+      config.imported_artifacts = config.imported_artifacts!.filter((entry) => entry !== imported);
     }
+    if (!isPhaseSkipped(phase.id)) return true;
+    log('Pipeline', `Phase ${phase.id} (${phase.name}) skipped by configuration`);
+    appendLog(runDir, `Phase ${phase.id} skipped by configuration`);
+    return false;
+  });
+  // A fork past repo bootstrap still needs its own repo before continuing.
+  const bootstrapPhase = findPhaseByKind('repo-bootstrap');
+  if (
+    config.forked_from &&
+    bootstrapPhase &&
+    phases.indexOf(bootstrapPhase) < startIndex &&
+    !config.completed_phases.includes(bootstrapPhase.id)
+  ) {
+    phasesToRun.unshift(bootstrapPhase);
+  }
+  const concurrency = args.concurrency ?? 1;
+  const gatesActive = effectiveInteractive && !args.dryRun;
+  if (concurrency > 1) {
+    setLabelledAgentLogs(true);
+    log('Pipeline', `Running independent artifact phases concurrently (up to ${concurrency} at a time)`);
+  }
+  const configLock = createLock();
+  const paused = await runPhaseGraph(phasesToRun, {
+    concurrency,
+    // Workspace phases, plugins and approval prompts never overlap with other phases.
+    isExclusive: (phase) =>
+      phase.kind !== 'artifact' || phase.needsRepo || (gatesActive && phase.approvalGate),
+    runPhase: async (phase) => {
+      console.log(`\n${'='.repeat(60)}`);
+      console.log(`  Phase ${phase.id}: ${phase.name}`);
+      console.log(`${'='.repeat(60)}\n`);
+
+      // Human approval gate (in interactive mode)
+      if (gatesActive && phase.approvalGate) {
+        let approved: boolean;
+        if (config.approval_mode === 'file') {
+          const response = await awaitFileApproval(phase, config, runDir, { gate: 'pre-run' });
+          approved = response.approved;
+          recordApprovalDecision(config, runDir, phase, {
+            gate: 'pre-run',
+            action: approved ? 'approve' : 'pause',
+            feedback: response.feedback,
+            via: 'file',
+          });
+        } else {
+          const costStr = config.total_cost_usd ? ` (cost so far: $${config.total_cost_usd.toFixed(2)})` : '';
+          approved = await promptApproval(
+            `Phase ${phase.id} (${phase.name}) is about to run${costStr}. Continue?`
+          );
+          recordApprovalDecision(config, runDir, phase, { gate: 'pre-run', action: approved ? 'approve' : 'pause' });
+        }
+        if (!approved) {
+          log(phase.name, 'Skipped by user. Pipeline paused.');
+          appendLog(runDir, `Phase ${phase.id} skipped by user`);
+          await configLock(() => saveConfig(runDir, config));
+          console.log(`\nPipeline paused. Resume with: --resume ${runDir} --from-phase ${phase.id}`);
+          return 'stop';
+        }
+      }
 
-    if (phase.id === '5') {
-      if (args.dryRun) {
-        console.log('  [dry-run] Phase 5: Would create GitHub repo and generate baseline');
+      await runHooksForPhase('pre', phase, config, artifactsDir, runDir, Boolean(args.dryRun));
+
+      if (phase.kind === 'repo-bootstrap') {
+        if (args.dryRun) {
+          console.log('  [dry-run] Phase 5: Would create GitHub repo and generate baseline');
+        } else {
+          runRepoBootstrap(config, artifactsDir, runDir);
+        }
+      } else if (phase.kind === 'implementation') {
+        await runImplementation(config, artifactsDir, runDir, {
+          budgetUsd: args.budgetUsd,
+          dryRun: args.dryRun,
+        });
+      } else if (phase.kind === 'test-verification') {
+        await runTestVerification(config, artifactsDir, runDir, {
+          dryRun: args.dryRun,
+          budgetUsd: args.budgetUsd,
+        });
+      } else if (phase.kind === 'plugin') {
+        await runPluginPhase(phase, config, artifactsDir, runDir, {
+          budgetUsd: args.budgetUsd,
+          dryRun: args.dryRun,
+        });
       } else {
-        runRepoBootstrap(config, artifactsDir, runDir);
+        const outcome = await runArtifactPhase(phase, config, artifactsDir, runDir, {
+          budgetUsd: args.budgetUsd,
+          dryRun: args.dryRun,
+          review: gatesActive && phase.approvalGate,
+        });
+        if (outcome === 'stop') {
+          await configLock(() => saveConfig(runDir, config));
+          console.log(`\nPipeline paused. Resume with: --resume ${runDir} --from-phase ${phase.id}`);
+          return 'stop';
+        }
       }
-    } else if (phase.id === '9') {
-      runImplementation(config, artifactsDir, runDir, {
-        budgetUsd: args.budgetUsd,
-        dryRun: args.dryRun,
-      });
-    } else if (phase.id === '10') {
-      runTestVerification(config, artifactsDir, runDir, {
-        dryRun: args.dryRun,
-        budgetUsd: args.budgetUsd,
-      });
-    } else {
-      runArtifactPhase(phase, config, artifactsDir, runDir, {
-        budgetUsd: args.budgetUsd,
-        dryRun: args.dryRun,
-      });
-    }
 
-    // Save config after each phase
-    saveConfig(runDir, config);
+      if (args.dryRun || config.completed_phases.includes(phase.id)) {
+        try {
+          await runHooksForPhase('post', phase, config, artifactsDir, runDir, Boolean(args.dryRun));
+        } catch (error) {
+          // A failing post hook fails the phase, so resume runs it again.
+          config.completed_phases = config.completed_phases.filter((id) => id !== phase.id);
+          await configLock(() => saveConfig(runDir, config));
+          throw error;
+        }
+      }
 
-    log(phase.name, 'Phase complete.\n');
-  }
+      // Save config (and the phase's input fingerprint) after each phase
+      await configLock(() => {
+        if (!args.dryRun && config.completed_phases.includes(phase.id)) {
+          recordPhaseFingerprint(artifactsDir, phase);
+        }
+        saveConfig(runDir, config);
+      });
+
+      log(phase.name, 'Phase complete.\n');
+      return 'continue';
+    },
+  });
+  if (paused) return;
 
   // Generate run report
   generateRunReport(config, runDir);
@@ -3842,6 +5896,8 @@ async function main(): Promise<void> {
 }
 
 main().catch((err) => {
+  // The SIGINT handler saves state and exits once the agent has stopped.
+  if (INTERRUPTED) return;
   const message = err instanceof Error ? err.message : String(err);
   const stack = err instanceof Error ? err.stack || '' : '';
   if (ACTIVE_RUN_DIR) {
@@ -4108,3 +6164,71 @@ function buildMilestoneQualityRepairPrompt(
     '- Output concise summary: root cause, files changed, and final status.',
   ].join('\n');
 }
+
+/**
+ * Follow-up to the task's implementation session (or its previous repair):
+ * the session already holds the task context and the edits made so far.
+ */
+function buildTaskRepairContinuationPrompt(
+  checkKind: string,
+  report: string,
+  failedChecks: TestCheckResult[]
+): string {
+  const failingCheckList = failedChecks.map((check) => `- ${check.name}: \`${check.command}\``).join('\n');
+  const failureEvidence = failedChecks
+    .map((check) => {
+      const tail = check.output.length > 4500 ? check.output.slice(-4500) : check.output;
+      return [`### ${check.name}`, `Command: \`${check.command}\``, '```', tail || '(no output)', '```'].join('\n');
+    })
+    .join('\n\n');
+
+  return [
+    `The ${checkKind} run on your changes for this task failed. Fix the failures before the task can be committed.`,
+    '',
+    '## Failing Checks',
+    failingCheckList || '- (none provided)',
+    '',
+    '## Failure Evidence',
+    failureEvidence || '(no failure evidence provided)',
+    '',
+    '## Report',
+    report,
+    '',
+    '## Instructions',
+    '- Fix only issues introduced by this task or direct fallout from its edits.',
+    '- Do not weaken lint/type/build/test constraints and do not bypass checks.',
+    '- Keep the template test layout and avoid mock/placeholder data in production files.',
+    '- Re-run the failing checks until they pass, then output a concise summary with root cause, files changed, and final check status.',
+  ].join('\n');
+}
+
+/**
+ * Follow-up to the previous Phase 11/12 remediation session: only the gate
+ * result and the notes recorded since are sent.
+ */
+function buildRemediationContinuationPrompt(
+  phaseId: '11' | '12',
+  gateFailure: string,
+  attempt: number,
+  maxAttempts: number,
+  priorNotes: string[]
+): string {
+  return [
+    `Your previous remediation changes were committed, but the Phase ${phaseId} quality gate still fails.`,
+    'Continue the same remediation: keep fixes cumulative and follow the same rules as before.',
+    '',
+    '## Quality Gate Failure',
+    `- ${gateFailure}`,
+    '',
+    '## Attempt',
+    `- ${attempt}/${maxAttempts}`,
+    '',
+    ...(priorNotes.length > 0
+      ? ['## Latest Remediation Notes', ...priorNotes.slice(-4).map((note) => `- ${note}`), '']
+      : []),
+    '## Instructions',
+    '- Address the remaining blockers listed in the findings you already reviewed, starting with what the notes above report as still failing.',
+    '- Run relevant checks after edits and make sure they pass before finishing.',
+    '- Output concise summary: root causes fixed, files changed, commands run, and expected impact on the gate.',
+  ].join('\n');
+}